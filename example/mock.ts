@@ -0,0 +1,59 @@
+import { strict as assert } from 'node:assert';
+import { MinecraftDebugSession, MockDebuggee } from '../src/index.js';
+import { ProtocolVersion } from '../src/lib/minecraft.js';
+
+async function test(session: MinecraftDebugSession) {
+    const topStack = await session.getTopStack();
+    assert.equal(topStack.fileName, 'main.js');
+    assert.equal(topStack.lineNumber, 12);
+    const [local] = await topStack.getScopes();
+    const locals = await local.inspect();
+    assert.equal(locals.tick, 20);
+    assert.deepEqual([...(locals.players as string[])], ['Steve', 'Alex']);
+    const result = await topStack.evaluateExpression('players.length');
+    assert.equal(await result.inspect(), 2);
+    await session.continue();
+}
+
+async function main() {
+    const debuggee = new MockDebuggee({
+        protocolVersion: ProtocolVersion.SupportBreakpointsAsRequest,
+        timeline: [
+            [{ name: 'main', filename: 'main.js', line: 1 }],
+            [
+                {
+                    name: 'onTick',
+                    filename: 'main.js',
+                    line: 12,
+                    scopes: [{ name: 'Local', variables: { tick: 20, players: ['Steve', 'Alex'] } }],
+                },
+            ],
+        ],
+        evaluate: { 'players.length': 2 },
+    });
+    const conn = await debuggee.createConnection();
+    const session = new MinecraftDebugSession(conn, { version: ProtocolVersion.SupportBreakpointsAsRequest });
+    session.on('protocol', async () => {
+        const [status] = await session.setBreakpoints('main.js', [{ line: 12 }]);
+        assert.ok(status.verified);
+        session.resume();
+    });
+    session.on('stopped', (ev) => {
+        if (ev.reason === 'breakpoint') {
+            test(session)
+                .then(() => {
+                    process.stdout.write('Passed\n');
+                })
+                .catch((err) => {
+                    console.error(err);
+                })
+                .finally(() => {
+                    conn.close();
+                });
+        }
+    });
+}
+
+main().catch((err) => {
+    console.error(err);
+});
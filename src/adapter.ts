@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+
+import { type AddressInfo, createServer } from 'node:net';
+import { QuickJSDebugAdapter } from './index.js';
+
+function main(args: string[]) {
+    const serverIndex = args.indexOf('--server');
+    if (serverIndex >= 0) {
+        const server = createServer((socket) => {
+            const adapter = new QuickJSDebugAdapter(socket, socket);
+            adapter.on('end', () => {
+                socket.end();
+            });
+        });
+        server.listen(Number(args[serverIndex + 1]) || 0, () => {
+            const addr = server.address() as AddressInfo;
+            process.stderr.write(`Debug adapter is listening on port ${addr.port}\n`);
+        });
+    } else {
+        const adapter = new QuickJSDebugAdapter(process.stdin, process.stdout);
+        adapter.on('end', () => {
+            process.exit(0);
+        });
+    }
+}
+
+main(process.argv.slice(2));
@@ -1,10 +1,94 @@
-export { DebugConnection, QuickJSDebugConnection } from './lib/connection.js';
+export { QuickJSAttachArguments, QuickJSDebugAdapter } from './lib/adapter.js';
+export {
+    AsyncStackFrame,
+    AsyncStackSegment,
+    AsyncTrackingOptions,
+    formatAsyncStack,
+    formatRejection,
+    parseStackTrace,
+    RejectionEvent,
+    SchedulerHook,
+} from './lib/async.js';
+export { Breakpoint, BreakpointLocation, BreakpointManager, BreakpointOptions } from './lib/breakpoints.js';
+export { CompletionResult, ExpressionCompleter } from './lib/completion.js';
+export {
+    ConnectOptions,
+    connectQuickJSDebugConnection,
+    DebugConnection,
+    DebugProtocolError,
+    DebugTransport,
+    FrameOptions,
+    FrameTooLargeError,
+    InvalidMessageError,
+    MalformedHeaderError,
+    QuickJSDebugConnection,
+    RequestOptions,
+    RequestTimeoutError,
+} from './lib/connection.js';
+export {
+    diffHeapSnapshots,
+    HeapConstructorDelta,
+    HeapConstructorStats,
+    HeapDiff,
+    HeapObject,
+    HeapObjectDelta,
+    HeapSnapshot,
+    HeapSnapshotOptions,
+    takeHeapSnapshot,
+} from './lib/heap.js';
+export { QuickJSPlaceholder } from './lib/inspect.js';
 export { MinecraftDebugSession } from './lib/minecraft.js';
+export { MockDebuggee, MockFixture, MockFrame, MockScope, MockValue } from './lib/mock.js';
+export { DebugConnectionFactory, ReconnectingDebugConnection } from './lib/reconnect.js';
+export {
+    parseTrace,
+    RecordingDebugConnection,
+    ReplayDebugConnection,
+    ReplayOptions,
+    TraceRecord,
+} from './lib/recorder.js';
 export {
+    createRemoteObject,
+    isRemoteArray,
+    RemoteObject,
+    RemotePath,
+    remoteHandle,
+    remoteKeys,
+    remoteRef,
+} from './lib/remote.js';
+export { decodeValue, EncodedValue, encodeValue, RefDecoder, RefEncoder } from './lib/serialize.js';
+export {
+    DebuggeeState,
+    EntriesOptions,
+    ExceptionDetails,
+    HandleSource,
     InspectOptions,
     QuickJSDebugSession,
     QuickJSHandle,
     QuickJSScope,
     QuickJSStackFrame,
     QuickJSVariable,
+    RemoteArgs,
+    StaleHandleError,
+    StopFilter,
+    StoppedEvent,
+    ThreadInfo,
 } from './lib/session.js';
+export { SourceLine, SourceResolver, SourceResolverOptions } from './lib/source.js';
+export { RawSourceMap, SourceLocation, SourceMap, SourceMapOptions, SourceMapResolver } from './lib/sourcemap.js';
+export {
+    runTo,
+    SteppingOptions,
+    SteppingResult,
+    StepType,
+    step,
+    stepUntil,
+    stepUntilChanged,
+} from './lib/stepping.js';
+export { FrameSelector, Watch, WatchManager } from './lib/watch.js';
+export {
+    acceptWebSocket,
+    connectWebSocket,
+    connectWebSocketDebugConnection,
+    WebSocketTransport,
+} from './lib/websocket.js';
@@ -0,0 +1,566 @@
+import { Buffer } from 'node:buffer';
+import EventEmitter from 'node:events';
+import { type AddressInfo, createServer, type Server } from 'node:net';
+import { isAbsolute, relative, resolve, sep } from 'node:path';
+import type { Readable, Writable } from 'node:stream';
+import type { DebugProtocol } from '@vscode/debugprotocol';
+import { formatRejection } from './async.js';
+import { BreakpointManager } from './breakpoints.js';
+import {
+    connectQuickJSDebugConnection,
+    type DebugConnection,
+    InvalidMessageError,
+    QuickJSDebugConnection,
+} from './connection.js';
+import { LogLevel, MinecraftDebugSession } from './minecraft.js';
+import { ReconnectingDebugConnection } from './reconnect.js';
+import type { EvaluateContext, QuickJSHandle, StopFilter, StoppedEvent } from './session.js';
+
+const headerSeparator = Buffer.from('\r\n\r\n');
+const contentLengthRegex = /^Content-Length:\s*(\d+)\s*$/im;
+
+function addProtocolMessageListener(
+    input: Readable,
+    onMessage: (message: DebugProtocol.ProtocolMessage) => void,
+    onError: (error: InvalidMessageError) => void,
+) {
+    let buffer: Buffer = Buffer.alloc(0);
+    let contentLength = -1;
+    input.on('data', (chunk: Buffer | string) => {
+        const chunkBuffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+        buffer = buffer.length ? Buffer.concat([buffer, chunkBuffer]) : chunkBuffer;
+        while (buffer.length > 0) {
+            if (contentLength < 0) {
+                const headerEnd = buffer.indexOf(headerSeparator);
+                if (headerEnd < 0) break;
+                const header = buffer.subarray(0, headerEnd).toString('ascii');
+                buffer = buffer.subarray(headerEnd + headerSeparator.length);
+                const match = contentLengthRegex.exec(header);
+                if (match) {
+                    contentLength = Number.parseInt(match[1], 10);
+                }
+                continue;
+            }
+            if (buffer.length < contentLength) break;
+            const content = buffer.subarray(0, contentLength);
+            buffer = buffer.subarray(contentLength);
+            contentLength = -1;
+            let message: DebugProtocol.ProtocolMessage;
+            try {
+                message = JSON.parse(content.toString()) as DebugProtocol.ProtocolMessage;
+                if (typeof message !== 'object' || message === null) {
+                    throw new TypeError('Message is not an object');
+                }
+            } catch (err) {
+                onError(new InvalidMessageError(content.toString(), err));
+                continue;
+            }
+            onMessage(message);
+        }
+    });
+}
+
+export interface QuickJSAttachArguments {
+    /**
+     * `listen` waits for the debuggee to connect, `connect` dials a listening debuggee and reconnects when dropped.
+     * @default 'listen'
+     */
+    mode?: 'listen' | 'connect';
+    /**
+     * Port to listen on or to connect to.
+     * @default 19144
+     */
+    port?: number;
+    /**
+     * Host to bind when listening, or to connect to.
+     */
+    host?: string;
+    /**
+     * Local directory that debuggee file names are relative to.
+     */
+    localRoot?: string;
+    /**
+     * [Minecraft only] Target module uuid sent in protocol response.
+     */
+    targetModuleUuid?: string;
+    /**
+     * [Minecraft only] Passcode sent in protocol response.
+     */
+    passcode?: string;
+    /**
+     * Instrument promises and schedulers in the debuggee to show where callbacks were scheduled and to report
+     * unhandled rejections. Slows down the debuggee, which is paused briefly after attaching to install it.
+     */
+    asyncStackTraces?: boolean;
+}
+
+export interface QuickJSDebugAdapterEvents {
+    end: [];
+}
+
+const exceptionBreakpointFilters: DebugProtocol.ExceptionBreakpointsFilter[] = [
+    { filter: 'all', label: 'All Exceptions', default: false },
+];
+
+const outputCategories: Record<LogLevel, string> = {
+    [LogLevel.Verbose]: 'console',
+    [LogLevel.Info]: 'stdout',
+    [LogLevel.Warn]: 'stderr',
+    [LogLevel.Error]: 'stderr',
+    [LogLevel.Fatal]: 'stderr',
+};
+
+function formatVariableValue(handle: QuickJSHandle) {
+    if (handle.primitive && handle.type === 'string') {
+        return JSON.stringify(handle.primitiveValue);
+    }
+    return String(handle);
+}
+
+function toVariable(handle: QuickJSHandle): DebugProtocol.Variable {
+    return {
+        name: handle.name,
+        value: formatVariableValue(handle),
+        type: handle.type,
+        variablesReference: handle.primitive ? 0 : handle.ref,
+        indexedVariables: handle.isArray ? handle.indexedCount : undefined,
+    };
+}
+
+/**
+ * Translates Debug Adapter Protocol requests from a DAP client onto a {@link MinecraftDebugSession}.
+ *
+ * The adapter listens for or connects to the debuggee as given by `attach` (or `launch`) arguments.
+ */
+export class QuickJSDebugAdapter extends EventEmitter<QuickJSDebugAdapterEvents> {
+    output: Writable;
+    sequence = 1;
+    server: Server | null = null;
+    connection: DebugConnection | null = null;
+    session: MinecraftDebugSession | null = null;
+    attachArguments: QuickJSAttachArguments = {};
+    breakpoints = new BreakpointManager();
+    stopOnException = false;
+    threadId = 0;
+    constructor(input: Readable, output: Writable) {
+        super();
+        this.output = output;
+        this.breakpoints.on('error', (err) => {
+            this.sendOutput(`${String(err)}\n`, 'stderr');
+        });
+        this.breakpoints.on('logpoint', (_breakpoint, message) => {
+            this.sendOutput(`${message}\n`, 'console');
+        });
+        addProtocolMessageListener(
+            input,
+            (message) => {
+                if (message.type === 'request') {
+                    this.handleRequest(message as DebugProtocol.Request);
+                }
+            },
+            (err) => {
+                this.sendOutput(`${String(err)}\n`, 'stderr');
+            },
+        );
+        input.on('end', () => {
+            this.shutdown();
+        });
+    }
+
+    sendMessage(message: DebugProtocol.ProtocolMessage) {
+        const content = Buffer.from(JSON.stringify(message));
+        this.output.write(`Content-Length: ${content.length}\r\n\r\n`);
+        this.output.write(content);
+    }
+
+    sendEvent<T extends DebugProtocol.Event>(event: T['event'], body?: T['body']) {
+        this.sendMessage({
+            seq: this.sequence++,
+            type: 'event',
+            event,
+            body,
+        } as DebugProtocol.Event);
+    }
+
+    sendOutput(output: string, category?: string) {
+        this.sendEvent<DebugProtocol.OutputEvent>('output', { category: category ?? 'console', output });
+    }
+
+    handleRequest(request: DebugProtocol.Request) {
+        this.dispatchRequest(request.command, request.arguments)
+            .then((body) => {
+                this.sendMessage({
+                    seq: this.sequence++,
+                    type: 'response',
+                    request_seq: request.seq,
+                    command: request.command,
+                    success: true,
+                    body,
+                } as DebugProtocol.Response);
+            })
+            .catch((err: unknown) => {
+                this.sendMessage({
+                    seq: this.sequence++,
+                    type: 'response',
+                    request_seq: request.seq,
+                    command: request.command,
+                    success: false,
+                    message: err instanceof Error ? err.message : String(err),
+                } as DebugProtocol.Response);
+            })
+            .finally(() => {
+                if (request.command === 'disconnect') {
+                    this.shutdown();
+                }
+            });
+    }
+
+    async dispatchRequest(command: string, args: unknown): Promise<unknown> {
+        switch (command) {
+            case 'initialize':
+                return this.initialize();
+            case 'launch':
+            case 'attach':
+                return this.attach(args as QuickJSAttachArguments);
+            case 'configurationDone':
+            case 'disconnect':
+                return undefined;
+            case 'setBreakpoints':
+                return this.setBreakpoints(args as DebugProtocol.SetBreakpointsArguments);
+            case 'setExceptionBreakpoints':
+                return this.setExceptionBreakpoints(args as DebugProtocol.SetExceptionBreakpointsArguments);
+            case 'threads':
+                return this.threads();
+            case 'stackTrace':
+                return this.stackTrace(args as DebugProtocol.StackTraceArguments);
+            case 'scopes':
+                return this.scopes(args as DebugProtocol.ScopesArguments);
+            case 'variables':
+                return this.variables(args as DebugProtocol.VariablesArguments);
+            case 'evaluate':
+                return this.evaluate(args as DebugProtocol.EvaluateArguments);
+            case 'exceptionInfo':
+                return this.exceptionInfo();
+            case 'continue':
+                // All threads continue together, whichever one the client asks for
+                await this.requireSession().continue();
+                return { allThreadsContinued: true } as DebugProtocol.ContinueResponse['body'];
+            case 'next':
+                return this.requireSession().stepNext((args as DebugProtocol.NextArguments).threadId);
+            case 'stepIn':
+                return this.requireSession().stepIn((args as DebugProtocol.StepInArguments).threadId);
+            case 'stepOut':
+                return this.requireSession().stepOut((args as DebugProtocol.StepOutArguments).threadId);
+            case 'pause':
+                return this.requireSession().pause((args as DebugProtocol.PauseArguments).threadId);
+            default:
+                throw new Error(`Unsupported request: ${command}`);
+        }
+    }
+
+    requireSession() {
+        if (!this.session) {
+            throw new Error('Debuggee is offline');
+        }
+        return this.session;
+    }
+
+    toDebuggeePath(path: string) {
+        const { localRoot } = this.attachArguments;
+        if (localRoot && isAbsolute(path)) {
+            return relative(localRoot, path).split(sep).join('/');
+        }
+        return path;
+    }
+
+    toLocalPath(fileName: string) {
+        const { localRoot } = this.attachArguments;
+        if (localRoot) {
+            return resolve(localRoot, fileName);
+        }
+        return fileName;
+    }
+
+    initialize(): DebugProtocol.Capabilities {
+        setImmediate(() => {
+            this.sendEvent<DebugProtocol.InitializedEvent>('initialized');
+        });
+        return {
+            supportsConfigurationDoneRequest: true,
+            supportsEvaluateForHovers: true,
+            supportsConditionalBreakpoints: true,
+            supportsHitConditionalBreakpoints: true,
+            supportsLogPoints: true,
+            supportsExceptionInfoRequest: true,
+            exceptionBreakpointFilters,
+        };
+    }
+
+    async attach(args: QuickJSAttachArguments) {
+        if (this.server || this.connection) {
+            throw new Error('Already attached');
+        }
+        this.attachArguments = args;
+        if (args.mode === 'connect') {
+            const port = args.port ?? 19144;
+            const connection = new ReconnectingDebugConnection((signal) =>
+                connectQuickJSDebugConnection({ ...args, port, signal }),
+            );
+            connection.on('connect', () => {
+                this.sendOutput('Debuggee connected\n');
+            });
+            connection.on('disconnect', () => {
+                this.sendOutput('Debuggee disconnected, reconnecting...\n');
+            });
+            this.onConnection(connection);
+            connection.start();
+            this.sendOutput(`Connecting to debuggee..... ${args.host ?? 'localhost'}:${port}\n`);
+            return;
+        }
+        const server = createServer((socket) => {
+            if (this.connection) {
+                socket.end();
+                return;
+            }
+            this.onConnection(new QuickJSDebugConnection(socket));
+            this.sendOutput('Debuggee connected\n');
+        });
+        this.server = server;
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(args.port ?? 19144, args.host, () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+        const address = server.address() as AddressInfo;
+        this.sendOutput(`Waiting for debuggee to connect..... port:${address.port}\n`);
+    }
+
+    onConnection(connection: DebugConnection) {
+        const { targetModuleUuid, passcode } = this.attachArguments;
+        const session = new MinecraftDebugSession(connection, { version: 1, targetModuleUuid, passcode });
+        this.connection = connection;
+        this.session = session;
+        session.on('stopped', (ev) => {
+            this.onStopped(ev);
+        });
+        session.on('context', (ev) => {
+            this.sendEvent<DebugProtocol.ThreadEvent>('thread', {
+                reason: ev.reason === 'new' ? 'started' : 'exited',
+                threadId: ev.thread,
+            });
+        });
+        session.on('log', (ev) => {
+            this.sendOutput(`${ev.message}\n`, outputCategories[ev.logLevel as LogLevel] ?? 'console');
+        });
+        session.on('rejection', (ev) => {
+            this.sendOutput(`Unhandled promise rejection: ${formatRejection(ev)}\n`, 'stderr');
+        });
+        session.on('end', () => {
+            connection.close();
+        });
+        connection.on('end', () => {
+            this.connection = null;
+            this.session = null;
+            this.breakpoints.detach();
+            this.sendEvent<DebugProtocol.TerminatedEvent>('terminated');
+        });
+        const reportError = (err: unknown) => {
+            this.sendOutput(`${String(err)}\n`, 'stderr');
+        };
+        connection.on('error', reportError);
+        session.on('error', reportError);
+        this.breakpoints.attach(session);
+        session.setStopOnException(this.stopOnException);
+        if (this.attachArguments.asyncStackTraces) {
+            this.startAsyncTracking(session);
+        }
+        session.resume();
+    }
+
+    /**
+     * Async hooks can only be installed while the debuggee is paused. Pausing once after the handshake installs
+     * them before most callbacks are scheduled, instead of at the first stop the user sees.
+     */
+    startAsyncTracking(session: MinecraftDebugSession) {
+        const installOnFirstStop: StopFilter = async (ev) => {
+            session.removeStopFilter(installOnFirstStop);
+            try {
+                await session.setAsyncTracking({});
+            } catch (err) {
+                this.sendOutput(`${String(err)}\n`, 'stderr');
+            }
+            // Only the pause requested here is hidden
+            return ev.reason !== 'pause';
+        };
+        session.addStopFilter(installOnFirstStop);
+        session.once('protocol', () => {
+            session.pause().catch((err) => {
+                this.sendOutput(`Async stack traces start at the first stop: ${String(err)}\n`, 'stderr');
+            });
+        });
+    }
+
+    onStopped(ev: StoppedEvent) {
+        this.threadId = ev.thread;
+        let reason: string = ev.reason;
+        if (ev.reason === 'stepIn' || ev.reason === 'stepOut') {
+            reason = 'step';
+        }
+        const exception = ev.reason === 'exception' ? this.session?.exceptionDetails : null;
+        this.sendEvent<DebugProtocol.StoppedEvent>('stopped', {
+            reason,
+            description: exception ? 'Paused on exception' : undefined,
+            text: exception?.message,
+            threadId: ev.thread,
+            allThreadsStopped: true,
+        });
+    }
+
+    async setBreakpoints(args: DebugProtocol.SetBreakpointsArguments) {
+        const path = args.source.path ?? args.source.name;
+        if (!path) {
+            throw new Error('Source path is required');
+        }
+        const fileName = this.toDebuggeePath(path);
+        const breakpoints = await this.breakpoints.replace(
+            fileName,
+            (args.breakpoints ?? []).map((e) => ({
+                line: e.line,
+                column: e.column,
+                condition: e.condition,
+                hitCondition: e.hitCondition,
+                logMessage: e.logMessage,
+            })),
+        );
+        return {
+            breakpoints: breakpoints.map((e) => ({
+                id: e.id,
+                verified: e.verified,
+                line: e.line,
+                column: e.column,
+            })),
+        } as DebugProtocol.SetBreakpointsResponse['body'];
+    }
+
+    setExceptionBreakpoints(args: DebugProtocol.SetExceptionBreakpointsArguments) {
+        this.stopOnException = args.filters.includes('all');
+        this.session?.setStopOnException(this.stopOnException);
+        return undefined;
+    }
+
+    threads(): DebugProtocol.ThreadsResponse['body'] {
+        const ids = this.session?.getThreads().map((e) => e.id) ?? [];
+        if (!ids.includes(this.threadId)) {
+            ids.push(this.threadId);
+        }
+        return {
+            threads: ids.sort((a, b) => a - b).map((id) => ({ id, name: `Context ${id}` })),
+        };
+    }
+
+    async stackTrace(args: DebugProtocol.StackTraceArguments): Promise<DebugProtocol.StackTraceResponse['body']> {
+        const session = this.requireSession();
+        if (args.threadId !== session.thread) {
+            // Other threads are reported as stopped too, but the debuggee only has the stack of this one
+            return { stackFrames: [], totalFrames: 0 };
+        }
+        const frames = await session.traceStack(undefined, args.threadId);
+        const stackFrames: DebugProtocol.StackFrame[] = frames.map((frame) => ({
+            id: frame.id,
+            name: frame.name,
+            source: frame.fileName ? { path: this.toLocalPath(frame.fileName) } : undefined,
+            line: frame.lineNumber,
+            column: 1,
+        }));
+        // Async frames cannot be inspected, they get negative ids that have no scopes
+        let asyncId = 0;
+        for (const segment of session.getAsyncStack()) {
+            stackFrames.push({ id: --asyncId, name: segment.kind, line: 0, column: 0, presentationHint: 'label' });
+            for (const frame of segment.frames) {
+                stackFrames.push({
+                    id: --asyncId,
+                    name: frame.functionName || '<anonymous>',
+                    source: frame.line ? { path: this.toLocalPath(frame.fileName) } : undefined,
+                    line: frame.line,
+                    column: frame.column ?? 1,
+                    presentationHint: 'subtle',
+                });
+            }
+        }
+        const start = args.startFrame ?? 0;
+        const end = args.levels ? start + args.levels : stackFrames.length;
+        return {
+            stackFrames: stackFrames.slice(start, end),
+            totalFrames: stackFrames.length,
+        };
+    }
+
+    async scopes(args: DebugProtocol.ScopesArguments): Promise<DebugProtocol.ScopesResponse['body']> {
+        if (args.frameId < 0) {
+            return { scopes: [] };
+        }
+        const scopes = await this.requireSession().getScopes(args.frameId);
+        return {
+            scopes: scopes.map((scope) => ({
+                name: scope.name,
+                variablesReference: scope.ref,
+                expensive: scope.expensive,
+            })),
+        };
+    }
+
+    async variables(args: DebugProtocol.VariablesArguments): Promise<DebugProtocol.VariablesResponse['body']> {
+        const { filter, start, count } = args;
+        const variables = await this.requireSession().inspectVariable(args.variablesReference, {
+            filter,
+            start,
+            count,
+        });
+        return { variables: variables.map(toVariable) };
+    }
+
+    async evaluate(args: DebugProtocol.EvaluateArguments): Promise<DebugProtocol.EvaluateResponse['body']> {
+        const session = this.requireSession();
+        const frameId = args.frameId ?? (await session.getTopStack()).id;
+        const result = await session.evaluate(frameId, args.expression, args.context as EvaluateContext | undefined);
+        const variable = toVariable(result);
+        return {
+            result: variable.value,
+            type: variable.type,
+            variablesReference: variable.variablesReference,
+            indexedVariables: variable.indexedVariables,
+        };
+    }
+
+    async exceptionInfo(): Promise<DebugProtocol.ExceptionInfoResponse['body']> {
+        const details = await this.requireSession().getExceptionDetails();
+        if (!details) {
+            throw new Error('Not paused on an exception');
+        }
+        return {
+            exceptionId: details.constructorName ?? details.value?.type ?? 'Exception',
+            description: details.message,
+            breakMode: 'always',
+            details: {
+                message: details.message,
+                typeName: details.constructorName,
+                stackTrace: details.stack,
+            },
+        };
+    }
+
+    shutdown() {
+        if (this.connection) {
+            this.connection.close();
+            this.connection = null;
+            this.session = null;
+        }
+        if (this.server) {
+            this.server.close();
+            this.server = null;
+        }
+        this.emit('end');
+    }
+}
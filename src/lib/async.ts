@@ -0,0 +1,337 @@
+import { inspect } from 'node:util';
+
+/**
+ * Async stack traces and unhandled rejection tracking. QuickJS has no hooks for either, so {@link installAsyncHooks}
+ * patches `Promise.prototype.then` and scheduler functions in the debuggee to remember where each callback was
+ * scheduled, and watches the promises they return for rejections nobody handles.
+ *
+ * Only promises created through the patched functions are tracked. Promises returned by `async` functions are
+ * created natively and cannot be observed.
+ *
+ * {@link installAsyncHooks}, {@link uninstallAsyncHooks} and {@link readAsyncState} run in the debuggee and must stay
+ * self-contained. Names of the functions they install start with {@link asyncRegistryName}, so that their frames
+ * can be removed from captured stacks.
+ */
+
+/**
+ * Global variable of the debuggee that holds the hooks.
+ */
+export const asyncRegistryName = '__quickjsDebuggerAsync';
+
+export interface AsyncStackFrame {
+    functionName: string;
+    fileName: string;
+    /**
+     * 0 if the frame has no location, e.g. native functions.
+     */
+    line: number;
+    column?: number;
+}
+
+export interface AsyncStackSegment {
+    /**
+     * How the callback was scheduled, e.g. `then` or `system.run`.
+     */
+    kind: string;
+    /**
+     * Stack at the time the callback was scheduled, innermost first.
+     */
+    frames: AsyncStackFrame[];
+}
+
+export interface RejectionEvent {
+    /**
+     * Reason of the rejection. Objects that cannot be copied are inspected.
+     */
+    reason: unknown;
+    /**
+     * Where the rejected promise was created, innermost first.
+     */
+    asyncStack: AsyncStackSegment[];
+}
+
+/**
+ * Functions that take callbacks, looked up as `module[object][method]`, `globalThis[object][method]`
+ * or `globalThis[method]`. Modules are imported when the hooks are installed, so they are patched once the debuggee
+ * runs again. Missing ones are skipped.
+ */
+export interface SchedulerHook {
+    module?: string;
+    object?: string;
+    methods: string[];
+}
+
+export interface AsyncTrackingOptions {
+    /**
+     * Number of async segments kept per callback. Defaults to 8.
+     */
+    maxDepth?: number;
+    /**
+     * Number of rejections kept until the next stop. Defaults to 32.
+     */
+    maxRejections?: number;
+    /**
+     * Pause the debuggee with a `debugger` statement when a rejection is not handled, so it is reported right away.
+     */
+    pauseOnRejection?: boolean;
+    schedulers?: SchedulerHook[];
+}
+
+export const defaultSchedulerHooks: SchedulerHook[] = [
+    { methods: ['setTimeout', 'setInterval', 'setImmediate', 'queueMicrotask'] },
+];
+
+interface AsyncHooksArgs {
+    registryName: string;
+    maxDepth: number;
+    maxRejections: number;
+    pause: boolean;
+    schedulers: SchedulerHook[];
+}
+
+interface RawSegment {
+    kind: string;
+    stack: string;
+}
+
+export interface RawAsyncState {
+    installed: boolean;
+    chain: RawSegment[];
+    rejections: { reason: unknown; chain: RawSegment[] }[];
+}
+
+/**
+ * Runs in the debuggee. Returns `false` if the hooks are already installed.
+ */
+export function installAsyncHooks(args: AsyncHooksArgs) {
+    type Chain = RawSegment[];
+    type AnyFunction = (this: unknown, ...fnArgs: unknown[]) => unknown;
+    const globals = globalThis as unknown as Record<string, unknown>;
+    if (globals[args.registryName]) return false;
+    const registry = {
+        current: null as Chain | null,
+        rejections: [] as { reason: unknown; chain: Chain }[],
+        restore: [] as (() => void)[],
+    };
+    Object.defineProperty(globalThis, args.registryName, { value: registry, configurable: true, writable: true });
+    const hookPrefix = args.registryName;
+    const originalThen = Promise.prototype.then as AnyFunction;
+    const originalReject = Promise.reject.bind(Promise);
+    const handled = new WeakSet<object>();
+    let internal = false;
+
+    function __quickjsDebuggerAsyncCapture(kind: string): Chain {
+        const lines = String(new Error().stack).split('\n');
+        const kept: string[] = [];
+        for (const line of lines) {
+            if (/^\s*at /.test(line) && line.indexOf(hookPrefix) < 0) kept.push(line);
+        }
+        const parent = registry.current ?? [];
+        return [{ kind, stack: kept.join('\n') }].concat(parent.slice(0, args.maxDepth - 1));
+    }
+    function bind(fn: unknown, chain: Chain) {
+        if (typeof fn !== 'function') return fn;
+        return function __quickjsDebuggerAsyncCallback(this: unknown, ...fnArgs: unknown[]) {
+            const saved = registry.current;
+            registry.current = chain;
+            try {
+                return (fn as AnyFunction).apply(this, fnArgs);
+            } finally {
+                registry.current = saved;
+            }
+        };
+    }
+    function defer(fn: () => void) {
+        originalThen.call(Promise.resolve(), fn);
+    }
+    function report(reason: unknown, chain: Chain) {
+        registry.rejections.push({ reason, chain });
+        if (registry.rejections.length > args.maxRejections) registry.rejections.shift();
+        if (args.pause) {
+            const saved = registry.current;
+            registry.current = chain;
+            try {
+                // biome-ignore lint/suspicious/noDebugger: pauses the debuggee so that the rejection is reported
+                debugger;
+            } finally {
+                registry.current = saved;
+            }
+        }
+        // Let the host report it as well
+        originalReject(reason);
+    }
+    function track(promise: unknown, chain: Chain) {
+        if (!(promise instanceof Promise)) return promise;
+        // `await` and `Promise.resolve` read the constructor before attaching their handlers natively
+        Object.defineProperty(promise, 'constructor', {
+            configurable: true,
+            get: function __quickjsDebuggerAsyncConstructor() {
+                if (!internal) handled.add(promise);
+                return Promise;
+            },
+        });
+        internal = true;
+        try {
+            originalThen.call(promise, undefined, function __quickjsDebuggerAsyncRejected(reason: unknown) {
+                // Handlers are usually attached right after the promise is created
+                defer(() => {
+                    defer(() => {
+                        if (!handled.has(promise)) report(reason, chain);
+                    });
+                });
+            });
+        } finally {
+            internal = false;
+        }
+        return promise;
+    }
+    function patch(
+        target: Record<string, unknown>,
+        name: string,
+        kind: string,
+        callbacks: number,
+        trackResult: boolean,
+    ) {
+        const original = target[name];
+        if (typeof original !== 'function') return;
+        try {
+            target[name] = function __quickjsDebuggerAsyncScheduler(this: unknown, ...fnArgs: unknown[]) {
+                if (this instanceof Promise) handled.add(this);
+                const chain = __quickjsDebuggerAsyncCapture(kind);
+                for (let i = 0; i < callbacks && i < fnArgs.length; i++) fnArgs[i] = bind(fnArgs[i], chain);
+                const result = (original as AnyFunction).apply(this, fnArgs);
+                return trackResult ? track(result, chain) : result;
+            };
+        } catch {
+            // Frozen or read-only
+            return;
+        }
+        registry.restore.push(() => {
+            target[name] = original;
+        });
+    }
+    const promiseStatics = Promise as unknown as Record<string, unknown>;
+    patch(Promise.prototype as unknown as Record<string, unknown>, 'then', 'then', 2, true);
+    for (const name of ['reject', 'all', 'race', 'any']) {
+        patch(promiseStatics, name, `Promise.${name}`, 0, true);
+    }
+    function patchScheduler(hook: SchedulerHook, container: Record<string, unknown>) {
+        const target = hook.object ? container[hook.object] : container;
+        if (target === null || (typeof target !== 'object' && typeof target !== 'function')) return;
+        for (const method of hook.methods) {
+            const kind = hook.object ? `${hook.object}.${method}` : method;
+            patch(target as Record<string, unknown>, method, kind, 1, false);
+        }
+    }
+    for (const hook of args.schedulers) {
+        if (hook.module) {
+            try {
+                originalThen.call(
+                    import(hook.module),
+                    (m: Record<string, unknown>) => {
+                        if (globals[args.registryName] === registry) patchScheduler(hook, m);
+                    },
+                    () => {
+                        // The module is not available
+                    },
+                );
+            } catch {
+                // Dynamic import is not available
+            }
+        } else {
+            patchScheduler(hook, globals);
+        }
+    }
+    return true;
+}
+
+/**
+ * Runs in the debuggee. Restores the patched functions.
+ */
+export function uninstallAsyncHooks(args: { registryName: string }) {
+    const globals = globalThis as unknown as Record<string, { restore: (() => void)[] } | undefined>;
+    const registry = globals[args.registryName];
+    if (!registry) return false;
+    for (const restore of registry.restore) restore();
+    delete globals[args.registryName];
+    return true;
+}
+
+/**
+ * Runs in the debuggee. Returns the async chain of the running callback and takes the pending rejections.
+ */
+export function readAsyncState(args: { registryName: string }): RawAsyncState {
+    const globals = globalThis as unknown as Record<
+        string,
+        { current: RawSegment[] | null; rejections: RawAsyncState['rejections'] } | undefined
+    >;
+    const registry = globals[args.registryName];
+    if (!registry) return { installed: false, chain: [], rejections: [] };
+    const rejections = registry.rejections;
+    registry.rejections = [];
+    return { installed: true, chain: registry.current ?? [], rejections };
+}
+
+const stackLineRegex = /^\s*at\s+(.*)$/;
+const locationRegex = /^(.*?):(\d+)(?::(\d+))?$/;
+
+/**
+ * Parses a QuickJS or V8 style stack, e.g. `at foo (main.js:3:5)`. Lines that are not frames are skipped.
+ */
+export function parseStackTrace(stack: string): AsyncStackFrame[] {
+    const frames: AsyncStackFrame[] = [];
+    for (const line of stack.split('\n')) {
+        const match = stackLineRegex.exec(line);
+        if (!match) continue;
+        let functionName = '';
+        let location = match[1].trim();
+        const open = location.lastIndexOf(' (');
+        if (location.endsWith(')') && open >= 0) {
+            functionName = location.slice(0, open);
+            location = location.slice(open + 2, -1);
+        }
+        const locationMatch = locationRegex.exec(location);
+        if (locationMatch) {
+            const column = locationMatch[3] ? Number(locationMatch[3]) : undefined;
+            frames.push({ functionName, fileName: locationMatch[1], line: Number(locationMatch[2]), column });
+        } else if (functionName) {
+            frames.push({ functionName, fileName: location, line: 0 });
+        } else {
+            frames.push({ functionName: location, fileName: '', line: 0 });
+        }
+    }
+    return frames;
+}
+
+export function toAsyncStack(chain: RawSegment[]): AsyncStackSegment[] {
+    return chain.map((e) => ({ kind: e.kind, frames: parseStackTrace(e.stack) }));
+}
+
+export function formatStackFrame(frame: AsyncStackFrame) {
+    if (!frame.line) {
+        return frame.fileName ? `${frame.functionName} (${frame.fileName})` : frame.functionName;
+    }
+    const column = frame.column !== undefined ? `:${frame.column}` : '';
+    const location = `${frame.fileName}:${frame.line}${column}`;
+    return frame.functionName ? `${frame.functionName} (${location})` : location;
+}
+
+/**
+ * Formats an async stack like a stack trace, with a separator line for each segment.
+ */
+export function formatAsyncStack(segments: AsyncStackSegment[]) {
+    const lines: string[] = [];
+    for (const segment of segments) {
+        lines.push(`    --- ${segment.kind} ---`);
+        for (const frame of segment.frames) {
+            lines.push(`    at ${formatStackFrame(frame)}`);
+        }
+    }
+    return lines.join('\n');
+}
+
+export function formatRejection(ev: RejectionEvent) {
+    const { reason, asyncStack } = ev;
+    const summary = reason instanceof Error ? (reason.stack ?? String(reason)) : inspect(reason);
+    return asyncStack.length ? `${summary}\n${formatAsyncStack(asyncStack)}` : summary;
+}
@@ -0,0 +1,414 @@
+import EventEmitter from 'node:events';
+import { readFile, writeFile } from 'node:fs/promises';
+import { MinecraftDebugSession } from './minecraft.js';
+import type { BreakpointInfo, QuickJSDebugSession, QuickJSStackFrame, StoppedEvent } from './session.js';
+
+/**
+ * Breakpoint behaviours emulated by the client, since the debuggee only supports plain line breakpoints.
+ */
+export interface BreakpointOptions {
+    /**
+     * Expression evaluated in the top frame. The breakpoint only stops when it is truthy.
+     */
+    condition?: string;
+    /**
+     * Hit count expression such as `5`, `>= 10` or `% 3`. A bare number stops on exactly that hit.
+     */
+    hitCondition?: string;
+    /**
+     * Message logged instead of stopping. Expressions between `{` and `}` are evaluated in the top frame.
+     * An empty message makes a regular breakpoint.
+     */
+    logMessage?: string;
+}
+
+export interface Breakpoint extends BreakpointOptions {
+    id: number;
+    fileName: string;
+    line: number;
+    column?: number;
+    enabled: boolean;
+    /**
+     * Whether the debuggee accepted the breakpoint in the latest sync.
+     */
+    verified: boolean;
+    /**
+     * Number of times the breakpoint was reached with its condition met since the session was attached.
+     */
+    hitCount: number;
+}
+
+export interface BreakpointLocation extends BreakpointOptions {
+    line: number;
+    column?: number;
+}
+
+interface SavedBreakpoint extends BreakpointLocation {
+    fileName: string;
+    enabled: boolean;
+}
+
+interface SavedBreakpoints {
+    version: 1;
+    breakpoints: SavedBreakpoint[];
+}
+
+export interface BreakpointManagerEvents {
+    /**
+     * Emitted after breakpoints of a file are added, removed, toggled or synced.
+     */
+    change: [fileName: string, breakpoints: Breakpoint[]];
+    /**
+     * Emitted when a logpoint is reached. The debuggee is resumed afterwards.
+     */
+    logpoint: [breakpoint: Breakpoint, message: string];
+    error: [error: unknown];
+}
+
+function compareBreakpoints(a: BreakpointLocation, b: BreakpointLocation) {
+    return a.line - b.line || (a.column ?? 0) - (b.column ?? 0);
+}
+
+const hitConditionRegex = /^\s*(>=|<=|==|=|>|<|%)?\s*(\d+)\s*$/;
+
+function parseHitCondition(hitCondition: string) {
+    const match = hitConditionRegex.exec(hitCondition);
+    if (!match) {
+        throw new Error(`Invalid hit condition: ${hitCondition}`);
+    }
+    const [, operator, value] = match;
+    return { operator: operator ?? '==', value: parseInt(value, 10) };
+}
+
+function matchHitCondition(hitCondition: string, hitCount: number) {
+    const { operator, value } = parseHitCondition(hitCondition);
+    switch (operator) {
+        case '>':
+            return hitCount > value;
+        case '>=':
+            return hitCount >= value;
+        case '<':
+            return hitCount < value;
+        case '<=':
+            return hitCount <= value;
+        case '%':
+            return value > 0 && hitCount % value === 0;
+        default:
+            return hitCount === value;
+    }
+}
+
+async function evaluateCondition(frame: QuickJSStackFrame, condition: string) {
+    const result = await frame.evaluateExpression(condition);
+    return result.primitive ? Boolean(result.primitiveValue) : true;
+}
+
+async function formatLogMessage(frame: QuickJSStackFrame, logMessage: string) {
+    const parts = logMessage.split(/\{([^{}]+)\}/);
+    for (let i = 1; i < parts.length; i += 2) {
+        try {
+            parts[i] = String(await frame.evaluateExpression(parts[i]));
+        } catch (err) {
+            parts[i] = `<${err instanceof Error ? err.message : String(err)}>`;
+        }
+    }
+    return parts.join('');
+}
+
+/**
+ * Tracks breakpoints per file and keeps the debuggee in sync with them.
+ *
+ * Only enabled breakpoints are sent to the debuggee. The verified status returned by the debuggee
+ * is recorded on each breakpoint.
+ */
+export class BreakpointManager extends EventEmitter<BreakpointManagerEvents> {
+    breakpointMap = new Map<string, Breakpoint[]>();
+    session: QuickJSDebugSession | null = null;
+    nextId = 1;
+    private detachSession?: () => void;
+
+    /**
+     * Syncs all breakpoints to the session now and after each Minecraft handshake. A `ReconnectingDebugConnection`
+     * replays them to new connections by itself, so they are not synced again on `connect`.
+     * Conditions, hit counts and logpoints are checked on each breakpoint stop of the session.
+     */
+    attach(session: QuickJSDebugSession) {
+        this.detach();
+        this.session = session;
+        for (const breakpoint of this.list()) {
+            breakpoint.hitCount = 0;
+        }
+        const resync = () => {
+            queueMicrotask(() => {
+                this.syncAsync();
+            });
+        };
+        if (session instanceof MinecraftDebugSession) {
+            session.on('protocol', resync);
+        }
+        session.addStopFilter(this.filterStop);
+        this.detachSession = () => {
+            session.removeStopFilter(this.filterStop);
+            if (session instanceof MinecraftDebugSession) {
+                session.off('protocol', resync);
+            }
+        };
+        this.syncAsync();
+    }
+
+    detach() {
+        this.detachSession?.();
+        this.detachSession = undefined;
+        this.session = null;
+        for (const breakpoints of this.breakpointMap.values()) {
+            for (const breakpoint of breakpoints) {
+                breakpoint.verified = false;
+            }
+        }
+    }
+
+    get(id: number) {
+        for (const breakpoints of this.breakpointMap.values()) {
+            const found = breakpoints.find((e) => e.id === id);
+            if (found) return found;
+        }
+        return undefined;
+    }
+
+    find(fileName: string, line: number, column?: number) {
+        return this.breakpointMap.get(fileName)?.find((e) => e.line === line && e.column === column);
+    }
+
+    list(fileName?: string) {
+        if (fileName !== undefined) {
+            return [...(this.breakpointMap.get(fileName) ?? [])];
+        }
+        return [...this.breakpointMap.values()].flat();
+    }
+
+    get fileNames() {
+        return [...this.breakpointMap.keys()].filter((e) => this.breakpointMap.get(e)?.length);
+    }
+
+    private readonly filterStop = async (ev: StoppedEvent) => {
+        const { session } = this;
+        if (ev.reason !== 'breakpoint' || !session) return true;
+        const frame = await session.getTopStack();
+        if (!frame) return true;
+        const reached = this.list(frame.fileName).filter((e) => e.enabled && e.line === frame.lineNumber);
+        if (!reached.length) return true;
+        let shouldStop = false;
+        for (const breakpoint of reached) {
+            try {
+                if (await this.checkBreakpoint(frame, breakpoint)) {
+                    shouldStop = true;
+                }
+            } catch (err) {
+                // A broken breakpoint stops, but must not keep the others on the line from being checked
+                this.emit('error', err);
+                shouldStop = true;
+            }
+        }
+        return shouldStop;
+    };
+
+    private async checkBreakpoint(frame: QuickJSStackFrame, breakpoint: Breakpoint) {
+        const { condition, hitCondition, logMessage } = breakpoint;
+        if (condition && !(await evaluateCondition(frame, condition))) {
+            return false;
+        }
+        breakpoint.hitCount++;
+        if (hitCondition && !matchHitCondition(hitCondition, breakpoint.hitCount)) {
+            return false;
+        }
+        if (logMessage !== undefined && logMessage !== '') {
+            this.emit('logpoint', breakpoint, await formatLogMessage(frame, logMessage));
+            return false;
+        }
+        return true;
+    }
+
+    private applyOptions(breakpoint: Breakpoint, options: BreakpointOptions) {
+        const condition = options.condition || undefined;
+        const hitCondition = options.hitCondition || undefined;
+        const logMessage = options.logMessage || undefined;
+        if (hitCondition) {
+            parseHitCondition(hitCondition);
+        }
+        if (
+            breakpoint.condition !== condition ||
+            breakpoint.hitCondition !== hitCondition ||
+            breakpoint.logMessage !== logMessage
+        ) {
+            breakpoint.condition = condition;
+            breakpoint.hitCondition = hitCondition;
+            breakpoint.logMessage = logMessage;
+            breakpoint.hitCount = 0;
+        }
+    }
+
+    private insert(fileName: string, location: BreakpointLocation, enabled: boolean) {
+        const existed = this.find(fileName, location.line, location.column);
+        if (existed) {
+            this.applyOptions(existed, location);
+            return existed;
+        }
+        const breakpoint: Breakpoint = {
+            id: this.nextId++,
+            fileName,
+            line: location.line,
+            column: location.column,
+            enabled,
+            verified: false,
+            hitCount: 0,
+        };
+        this.applyOptions(breakpoint, location);
+        let breakpoints = this.breakpointMap.get(fileName);
+        if (!breakpoints) {
+            breakpoints = [];
+            this.breakpointMap.set(fileName, breakpoints);
+        }
+        breakpoints.push(breakpoint);
+        breakpoints.sort(compareBreakpoints);
+        return breakpoint;
+    }
+
+    add(fileName: string, line: number, column?: number, options?: BreakpointOptions) {
+        const breakpoint = this.insert(fileName, { ...options, line, column }, true);
+        this.syncAsync(fileName);
+        return breakpoint;
+    }
+
+    /**
+     * Replaces all breakpoints of a file, keeping ids of the locations that already exist.
+     */
+    async replace(fileName: string, locations: BreakpointLocation[]) {
+        const kept = locations.map((e) => this.insert(fileName, e, true));
+        const breakpoints = this.breakpointMap.get(fileName) ?? [];
+        this.breakpointMap.set(
+            fileName,
+            breakpoints.filter((e) => kept.includes(e)),
+        );
+        await this.sync(fileName);
+        return kept;
+    }
+
+    remove(fileName: string, line: number, column?: number) {
+        const breakpoint = this.find(fileName, line, column);
+        if (breakpoint) {
+            return this.removeById(breakpoint.id);
+        }
+        return false;
+    }
+
+    removeById(id: number) {
+        const breakpoint = this.get(id);
+        if (breakpoint) {
+            const breakpoints = this.breakpointMap.get(breakpoint.fileName) ?? [];
+            breakpoints.splice(breakpoints.indexOf(breakpoint), 1);
+            this.syncAsync(breakpoint.fileName);
+            return true;
+        }
+        return false;
+    }
+
+    setEnabled(id: number, enabled: boolean) {
+        const breakpoint = this.get(id);
+        if (breakpoint) {
+            breakpoint.enabled = enabled;
+            this.syncAsync(breakpoint.fileName);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Replaces the condition, hit condition and log message of a breakpoint.
+     */
+    setOptions(id: number, options: BreakpointOptions) {
+        const breakpoint = this.get(id);
+        if (breakpoint) {
+            this.applyOptions(breakpoint, options);
+            this.emit('change', breakpoint.fileName, this.list(breakpoint.fileName));
+            return true;
+        }
+        return false;
+    }
+
+    clear(fileName?: string) {
+        const fileNames = fileName !== undefined ? [fileName] : [...this.breakpointMap.keys()];
+        for (const e of fileNames) {
+            this.breakpointMap.get(e)?.splice(0);
+            this.syncAsync(e);
+        }
+    }
+
+    syncAsync(fileName?: string) {
+        this.sync(fileName).catch((err) => this.emit('error', err));
+    }
+
+    /**
+     * Sends breakpoints to the session and records their verified status.
+     */
+    async sync(fileName?: string) {
+        const fileNames = fileName !== undefined ? [fileName] : [...this.breakpointMap.keys()];
+        await Promise.all(fileNames.map((e) => this.syncFile(e)));
+    }
+
+    private async syncFile(fileName: string) {
+        const breakpoints = this.list(fileName);
+        const { session } = this;
+        if (session) {
+            const enabled = breakpoints.filter((e) => e.enabled);
+            const infos: BreakpointInfo[] = enabled.map(({ line, column }) => ({ line, column }));
+            const status = await session.setBreakpoints(fileName, infos);
+            if (session !== this.session) return;
+            for (const breakpoint of breakpoints) {
+                breakpoint.verified = status[enabled.indexOf(breakpoint)]?.verified ?? false;
+            }
+        }
+        if (!this.breakpointMap.get(fileName)?.length) {
+            this.breakpointMap.delete(fileName);
+        }
+        this.emit('change', fileName, breakpoints);
+    }
+
+    toJSON(): SavedBreakpoints {
+        return {
+            version: 1,
+            breakpoints: this.list().map(
+                ({ fileName, line, column, enabled, condition, hitCondition, logMessage }) => ({
+                    fileName,
+                    line,
+                    column,
+                    enabled,
+                    condition,
+                    hitCondition,
+                    logMessage,
+                }),
+            ),
+        };
+    }
+
+    async save(path: string) {
+        await writeFile(path, JSON.stringify(this.toJSON(), null, 4));
+    }
+
+    /**
+     * Replaces all breakpoints with the ones saved in the file.
+     */
+    async load(path: string) {
+        const saved = JSON.parse(await readFile(path, 'utf-8')) as SavedBreakpoints;
+        const oldFileNames = [...this.breakpointMap.keys()];
+        this.breakpointMap.clear();
+        for (const { fileName, enabled, ...location } of saved.breakpoints) {
+            this.insert(fileName, location, enabled);
+        }
+        for (const fileName of oldFileNames) {
+            if (!this.breakpointMap.has(fileName)) {
+                this.breakpointMap.set(fileName, []);
+            }
+        }
+        await this.sync();
+    }
+}
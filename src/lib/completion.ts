@@ -0,0 +1,125 @@
+import type { RequestOptions } from './connection.js';
+import { type QuickJSHandle, type QuickJSStackFrame, StaleHandleError } from './session.js';
+
+export interface CompletionResult {
+    /**
+     * Names that start with `partial`, sorted.
+     */
+    completions: string[];
+    /**
+     * The trailing part of the input that the completions replace.
+     */
+    partial: string;
+}
+
+// Member accesses without calls, so completing never runs debuggee code other than getters
+const memberAccessRegex =
+    /(?<![\w$.\])])([A-Za-z_$][\w$]*(?:\s*\??\.\s*[A-Za-z_$][\w$]*|\[(?:\d+|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')\])*)\s*\??\.\s*([A-Za-z_$][\w$]*)?$/;
+const identifierRegex = /(?<![\w$.])([A-Za-z_$][\w$]*)?$/;
+const nameRegex = /^[A-Za-z_$][\w$]*$/;
+const maxPrototypeDepth = 32;
+
+/**
+ * Completes the expression at the end of the input in a paused frame. Without an object before the cursor, names
+ * come from the scopes of the frame and `globalThis`, otherwise from the object and its prototype chain.
+ *
+ * Names are cached until the debuggee runs again, so repeated completions of the same object are answered
+ * without requests. Call {@link clear} after evaluating code that may have changed them.
+ */
+export class ExpressionCompleter {
+    private generation = -1;
+    private cache = new Map<string, Promise<string[]>>();
+
+    clear() {
+        this.cache.clear();
+    }
+
+    async complete(frame: QuickJSStackFrame, input: string, options?: RequestOptions): Promise<CompletionResult> {
+        const memberMatch = memberAccessRegex.exec(input);
+        const identifierMatch = memberMatch ? null : identifierRegex.exec(input);
+        if (!memberMatch && !identifierMatch) {
+            return { completions: [], partial: '' };
+        }
+        const objectExpression = memberMatch?.[1] ?? null;
+        const partial = (memberMatch ? memberMatch[2] : identifierMatch?.[1]) ?? '';
+        let names: string[];
+        try {
+            names = await this.getNames(frame, objectExpression, options);
+        } catch (err) {
+            if (options?.signal?.aborted || err instanceof StaleHandleError) throw err;
+            names = [];
+        }
+        // Names that are not identifiers would need bracket notation
+        return { completions: names.filter((e) => e.startsWith(partial) && nameRegex.test(e)), partial };
+    }
+
+    private getNames(frame: QuickJSStackFrame, objectExpression: string | null, options?: RequestOptions) {
+        if (frame.generation !== this.generation) {
+            this.cache.clear();
+            this.generation = frame.generation;
+        }
+        const key = `${frame.id}:${objectExpression ?? ''}`;
+        let names = this.cache.get(key);
+        if (!names) {
+            names = objectExpression
+                ? this.fetchMemberNames(frame, objectExpression, options)
+                : this.fetchScopeNames(frame, options);
+            // Failures are not cached, the next completion retries
+            names.catch(() => {
+                if (this.cache.get(key) === names) this.cache.delete(key);
+            });
+            this.cache.set(key, names);
+        }
+        return names;
+    }
+
+    private async fetchScopeNames(frame: QuickJSStackFrame, options?: RequestOptions) {
+        const names = new Set<string>();
+        for (const scope of await frame.getScopes(options)) {
+            // The global scope is listed through `globalThis`
+            if (scope.expensive) continue;
+            for (const variable of await scope.getProperties(undefined, options)) {
+                names.add(variable.name);
+            }
+        }
+        const globalObject = await frame.evaluateExpression('globalThis', options);
+        for (const name of await collectPropertyNames(globalObject, options)) {
+            names.add(name);
+        }
+        return [...names].sort();
+    }
+
+    private async fetchMemberNames(frame: QuickJSStackFrame, expression: string, options?: RequestOptions) {
+        let object: QuickJSHandle = await frame.evaluateExpression(expression, options);
+        if (object.primitive) {
+            if (object.primitiveValue === null || object.primitiveValue === undefined) return [];
+            // Box primitives to reach the methods of their prototypes
+            object = await frame.evaluateExpression(`Object(${expression})`, options);
+        }
+        return (await collectPropertyNames(object, options)).sort();
+    }
+}
+
+/**
+ * Returns the names of the properties of an object and of its prototypes, nearest first.
+ * Indexes of arrays are left out.
+ */
+async function collectPropertyNames(object: QuickJSHandle, options?: RequestOptions) {
+    const names = new Set<string>();
+    const visited = new Set<number>();
+    let current: QuickJSHandle | undefined = object;
+    while (current && !current.primitive && current.ref && !visited.has(current.ref)) {
+        if (visited.size >= maxPrototypeDepth) break;
+        visited.add(current.ref);
+        const properties = await current.getProperties(current.isArray ? { filter: 'named' } : undefined, options);
+        current = undefined;
+        for (const property of properties) {
+            if (property.name === '__proto__') {
+                current = property;
+            } else {
+                names.add(property.name);
+            }
+        }
+    }
+    return [...names];
+}
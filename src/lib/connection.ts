@@ -1,46 +1,195 @@
 import { Buffer } from 'node:buffer';
 import EventEmitter from 'node:events';
-import type { Socket } from 'node:net';
-
-function addMessageListener(socket: Socket, onMessage: (buffer: Buffer) => void) {
-    const chunks: Buffer[] = [];
-    let bufferLength = 0;
-    let state: 'content' | 'length' = 'length';
-    let triggerLength = 9;
-    socket.on('data', (chunk) => {
+import { connect, type Socket } from 'node:net';
+import { setTimeout as delay } from 'node:timers/promises';
+
+/**
+ * A byte stream carrying length-prefixed debug messages. `net.Socket` satisfies this interface.
+ */
+export interface DebugTransport {
+    write(chunk: Uint8Array): unknown;
+    end(): unknown;
+    on(event: 'data', listener: (chunk: Buffer | string) => void): unknown;
+    on(event: 'end', listener: () => void): unknown;
+    on(event: 'close', listener: () => void): unknown;
+    on(event: 'error', listener: (err: Error) => void): unknown;
+}
+
+export class DebugProtocolError extends Error {}
+
+/**
+ * The 9-byte frame header is not 8 hex digits followed by a line feed.
+ */
+export class MalformedHeaderError extends DebugProtocolError {
+    header: string;
+    constructor(header: string) {
+        super(`Malformed frame header: ${JSON.stringify(header)}`);
+        this.header = header;
+    }
+}
+
+/**
+ * The frame header announces more bytes than {@link FrameOptions.maxFrameLength}. The frame is skipped.
+ */
+export class FrameTooLargeError extends DebugProtocolError {
+    length: number;
+    maxLength: number;
+    constructor(length: number, maxLength: number) {
+        super(`Frame length ${length} exceeds ${maxLength}`);
+        this.length = length;
+        this.maxLength = maxLength;
+    }
+}
+
+/**
+ * The frame content is not a valid JSON message. The frame is skipped.
+ */
+export class InvalidMessageError extends DebugProtocolError {
+    content: string;
+    constructor(content: string, cause: unknown) {
+        super(`Invalid message: ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+        this.content = content;
+    }
+}
+
+export interface FrameOptions {
+    /**
+     * Frames larger than this are skipped and reported as {@link FrameTooLargeError}.
+     * @default 67108864
+     */
+    maxFrameLength?: number;
+    /**
+     * Scan for the next valid header after a {@link MalformedHeaderError} instead of giving up on the stream.
+     * @default false
+     */
+    resync?: boolean;
+}
+
+export const defaultMaxFrameLength = 64 * 1024 * 1024;
+const headerLength = 9;
+const headerRegex = /^[0-9a-fA-F]{8}\n$/;
+const openBrace = 0x7b;
+
+function isHeaderAt(buffer: Buffer, offset: number) {
+    if (!headerRegex.test(buffer.toString('latin1', offset, offset + headerLength))) {
+        return false;
+    }
+    const next = offset + headerLength;
+    return next >= buffer.length || buffer[next] === openBrace;
+}
+
+export function addMessageListener(
+    transport: DebugTransport,
+    onMessage: (buffer: Buffer) => void,
+    onError?: (error: DebugProtocolError) => void,
+    options?: FrameOptions,
+) {
+    const maxFrameLength = options?.maxFrameLength ?? defaultMaxFrameLength;
+    const resync = options?.resync ?? false;
+    let buffer: Buffer = Buffer.alloc(0);
+    let contentLength = 0;
+    let discardLength = 0;
+    let state: 'header' | 'content' | 'discard' | 'resync' | 'broken' = 'header';
+    transport.on('data', (chunk) => {
+        if (state === 'broken') return;
         const chunkBuffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
-        bufferLength += chunkBuffer.length;
-        chunks.push(chunkBuffer);
-        while (bufferLength >= triggerLength) {
-            const bufferedChunk = chunks.length === 1 ? chunks[0] : Buffer.concat(chunks);
-            const triggerChunk = bufferedChunk.subarray(0, triggerLength);
-            bufferLength -= triggerLength;
-            chunks.splice(0, chunks.length, bufferedChunk.subarray(triggerLength));
-            switch (state) {
-                case 'length':
-                    state = 'content';
-                    triggerLength = parseInt(triggerChunk.toString(), 16);
-                    break;
-                case 'content':
-                    onMessage(triggerChunk);
-                    state = 'length';
-                    triggerLength = 9;
+        buffer = buffer.length ? Buffer.concat([buffer, chunkBuffer]) : chunkBuffer;
+        while (buffer.length > 0) {
+            if (state === 'discard') {
+                const length = Math.min(discardLength, buffer.length);
+                buffer = buffer.subarray(length);
+                discardLength -= length;
+                if (discardLength > 0) break;
+                state = 'header';
+            } else if (state === 'resync') {
+                let offset = 0;
+                while (offset + headerLength <= buffer.length && !isHeaderAt(buffer, offset)) {
+                    offset++;
+                }
+                buffer = buffer.subarray(offset);
+                if (buffer.length < headerLength) break;
+                state = 'header';
+            } else if (state === 'header') {
+                if (buffer.length < headerLength) break;
+                const header = buffer.toString('latin1', 0, headerLength);
+                if (!headerRegex.test(header)) {
+                    onError?.(new MalformedHeaderError(header));
+                    if (resync) {
+                        buffer = buffer.subarray(1);
+                        state = 'resync';
+                        continue;
+                    }
+                    buffer = Buffer.alloc(0);
+                    state = 'broken';
                     break;
+                }
+                buffer = buffer.subarray(headerLength);
+                contentLength = parseInt(header, 16);
+                if (contentLength > maxFrameLength) {
+                    onError?.(new FrameTooLargeError(contentLength, maxFrameLength));
+                    discardLength = contentLength;
+                    state = 'discard';
+                } else {
+                    state = 'content';
+                }
+            } else if (state === 'content') {
+                if (buffer.length < contentLength) break;
+                const content = buffer.subarray(0, contentLength);
+                buffer = buffer.subarray(contentLength);
+                state = 'header';
+                onMessage(content);
+            } else {
+                break;
             }
         }
     });
 }
 
+export function encodeMessage<T>(message: T) {
+    const buffer = Buffer.from(`${JSON.stringify(message)}\n`);
+    const lf = Buffer.from('\n');
+    return Buffer.concat([Buffer.from(buffer.length.toString(16).padStart(8, '0')), lf, buffer]);
+}
+
 export interface DebugConnectionEvents {
     end: [];
     error: [error: unknown];
+    event: [event: DebuggeeEvent];
     [key: `event:${string}`]: [DebuggeeEvent];
 }
 
+export interface RequestOptions {
+    /**
+     * Milliseconds to wait for the response, overriding the connection-wide timeout. `Infinity` waits forever.
+     */
+    timeout?: number;
+    /**
+     * Rejects the request with the abort reason when aborted.
+     */
+    signal?: AbortSignal;
+    /**
+     * Number of times to send the request again after a timeout. Only use it for idempotent requests.
+     * @default 0
+     */
+    retry?: number;
+}
+
+export class RequestTimeoutError extends Error {
+    command: string;
+    requestSeq: number;
+    timeout: number;
+    constructor(command: string, requestSeq: number, timeout: number) {
+        super(`Request ${command}#${requestSeq} timeout ${timeout}ms exceed.`);
+        this.command = command;
+        this.requestSeq = requestSeq;
+        this.timeout = timeout;
+    }
+}
+
 export interface DebugConnection extends EventEmitter<DebugConnectionEvents> {
     close(): void;
     sendEnvelope(type: string, data?: object): void;
-    sendRequest<R = void, T extends object = object>(command: string, args?: T): Promise<R>;
+    sendRequest<R = void, T extends object = object>(command: string, args?: T, options?: RequestOptions): Promise<R>;
 }
 
 export interface DebugEnvelope {
@@ -71,41 +220,55 @@ export interface DebuggeeResponse extends DebugEnvelope {
 }
 
 export class QuickJSDebugConnection extends EventEmitter<DebugConnectionEvents> implements DebugConnection {
-    socket: Socket;
+    transport: DebugTransport;
     requestTimeout: number;
     requestVersion: number;
     requestSeq: number;
     requestReactions: Map<number, { resolve: (value: unknown) => void; reject: (error?: unknown) => void }>;
-    constructor(socket: Socket) {
+    ended: boolean;
+    constructor(transport: DebugTransport, options?: FrameOptions) {
         super();
-        this.socket = socket;
+        this.transport = transport;
         this.requestTimeout = 10000;
         this.requestVersion = 1;
         this.requestSeq = 1;
         this.requestReactions = new Map();
-        addMessageListener(socket, (message) => {
-            this.handleMessage(message);
-        });
-        socket.on('end', () => {
-            this.emit('end');
-            const reactions = [...this.requestReactions.values()];
-            this.requestReactions.clear();
-            for (const { reject } of reactions) {
-                reject(new Error('Protocol is closed'));
-            }
-        });
-        socket.on('error', (err) => this.emit('error', err));
+        this.ended = false;
+        addMessageListener(
+            transport,
+            (message) => {
+                this.handleMessage(message);
+            },
+            (error) => {
+                this.emit('error', error);
+                if (error instanceof MalformedHeaderError && !options?.resync) {
+                    this.close();
+                }
+            },
+            options,
+        );
+        transport.on('end', () => this.handleEnd());
+        transport.on('close', () => this.handleEnd());
+        transport.on('error', (err) => this.emit('error', err));
+    }
+
+    private handleEnd() {
+        if (this.ended) return;
+        this.ended = true;
+        this.emit('end');
+        const reactions = [...this.requestReactions.values()];
+        this.requestReactions.clear();
+        for (const { reject } of reactions) {
+            reject(new Error('Protocol is closed'));
+        }
     }
 
     close() {
-        this.socket.end();
+        this.transport.end();
     }
 
     sendMessage<T>(message: T) {
-        const buffer = Buffer.from(`${JSON.stringify(message)}\n`);
-        const lf = Buffer.from('\n');
-        const packet = Buffer.concat([Buffer.from(buffer.length.toString(16).padStart(8, '0')), lf, buffer]);
-        this.socket.write(packet);
+        this.transport.write(encodeMessage(message));
     }
 
     sendEnvelope(type: string, data?: object) {
@@ -129,24 +292,65 @@ export class QuickJSDebugConnection extends EventEmitter<DebugConnectionEvents>
         return requestSeq;
     }
 
-    sendRequest<R = void, T extends object = object>(command: string, args?: T) {
+    async sendRequest<R = void, T extends object = object>(command: string, args?: T, options?: RequestOptions) {
+        const retry = options?.retry ?? 0;
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.sendRequestOnce<R>(command, args, options);
+            } catch (err) {
+                if (!(err instanceof RequestTimeoutError) || attempt >= retry) {
+                    throw err;
+                }
+            }
+        }
+    }
+
+    private sendRequestOnce<R>(command: string, args?: object, options?: RequestOptions) {
+        const signal = options?.signal;
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason);
+        }
         const requestSeq = this.sendRequestRaw(command, args);
-        const timeoutError = new Error(`Request timeout ${this.requestTimeout}ms exceed.`);
+        const requestTimeout = options?.timeout ?? this.requestTimeout;
         const { promise, resolve, reject } = Promise.withResolvers<R>();
         this.requestReactions.set(requestSeq, { resolve: resolve as (value: unknown) => void, reject });
-        const timeout = setTimeout(() => {
-            reject(timeoutError);
-        }, this.requestTimeout);
+        let timeout: ReturnType<typeof setTimeout> | undefined;
+        if (Number.isFinite(requestTimeout)) {
+            timeout = setTimeout(() => {
+                reject(new RequestTimeoutError(command, requestSeq, requestTimeout));
+            }, requestTimeout);
+        }
+        const onAbort = () => {
+            reject(signal?.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
         return promise.finally(() => {
             clearTimeout(timeout);
+            signal?.removeEventListener('abort', onAbort);
             this.requestReactions.delete(requestSeq);
         });
     }
 
     handleMessage(message: Buffer) {
-        const json = JSON.parse(message.toString()) as DebugEnvelope;
+        let json: DebugEnvelope;
+        try {
+            json = JSON.parse(message.toString()) as DebugEnvelope;
+            if (typeof json !== 'object' || json === null) {
+                throw new TypeError('Message is not an object');
+            }
+            if (json.type === 'event') {
+                const { event } = json as DebuggeeEventEnvelope;
+                if (typeof event !== 'object' || event === null || typeof event.type !== 'string') {
+                    throw new TypeError('Event envelope has no event');
+                }
+            }
+        } catch (err) {
+            this.emit('error', new InvalidMessageError(message.toString(), err));
+            return;
+        }
         if (json.type === 'event') {
             const event = (json as DebuggeeEventEnvelope).event;
+            this.emit('event', event);
             this.emit(`event:${event.type}`, event);
         } else if (json.type === 'response') {
             const response = json as DebuggeeResponse;
@@ -162,3 +366,73 @@ export class QuickJSDebugConnection extends EventEmitter<DebugConnectionEvents>
         }
     }
 }
+
+export interface ConnectOptions {
+    host?: string;
+    port: number;
+    /**
+     * Maximum number of attempts.
+     * @default Infinity
+     */
+    maxAttempts?: number;
+    /**
+     * Delay before the second attempt in milliseconds.
+     * @default 500
+     */
+    initialDelay?: number;
+    /**
+     * Upper bound of the delay between attempts in milliseconds.
+     * @default 10000
+     */
+    maxDelay?: number;
+    /**
+     * Multiplier applied to the delay after each failed attempt.
+     * @default 2
+     */
+    backoffFactor?: number;
+    signal?: AbortSignal;
+}
+
+function connectSocket(host: string | undefined, port: number, signal?: AbortSignal) {
+    return new Promise<Socket>((resolve, reject) => {
+        const socket = connect(port, host ?? 'localhost');
+        const onAbort = () => {
+            socket.destroy();
+            reject(signal?.reason);
+        };
+        const onError = (err: Error) => {
+            signal?.removeEventListener('abort', onAbort);
+            reject(err);
+        };
+        socket.once('connect', () => {
+            socket.off('error', onError);
+            signal?.removeEventListener('abort', onAbort);
+            resolve(socket);
+        });
+        socket.once('error', onError);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Dials a debuggee that is listening for a debugger, retrying with exponential backoff.
+ */
+export async function connectQuickJSDebugConnection(options: ConnectOptions) {
+    const { host, port, signal } = options;
+    const maxAttempts = options.maxAttempts ?? Infinity;
+    const maxDelay = options.maxDelay ?? 10000;
+    const backoffFactor = options.backoffFactor ?? 2;
+    let retryDelay = options.initialDelay ?? 500;
+    for (let attempt = 1; ; attempt++) {
+        signal?.throwIfAborted();
+        try {
+            return new QuickJSDebugConnection(await connectSocket(host, port, signal));
+        } catch (err) {
+            if (signal?.aborted || attempt >= maxAttempts) {
+                throw err;
+            }
+        }
+        await delay(retryDelay, undefined, { signal });
+        retryDelay = Math.min(retryDelay * backoffFactor, maxDelay);
+    }
+}
@@ -0,0 +1,329 @@
+import { asyncRegistryName } from './async.js';
+import type { RequestOptions } from './connection.js';
+import { detectObjectKind, getFunctionName, type ObjectKind } from './inspect.js';
+import { pinnedRegistryName } from './serialize.js';
+import { type QuickJSDebugSession, type QuickJSHandle, StaleHandleError } from './session.js';
+
+export interface HeapSnapshotOptions {
+    /**
+     * Also start from the local and closure scopes of every frame of the current thread, not only from `globalThis`.
+     */
+    includeScopes?: boolean;
+    /**
+     * Walk into prototypes. Off by default, prototypes are shared and mostly hold methods.
+     */
+    includePrototypes?: boolean;
+    /**
+     * Stops walking after this many objects and marks the snapshot as truncated. Defaults to 20000.
+     */
+    maxObjects?: number;
+    /**
+     * Number of entries in {@link HeapSnapshot.largest}. Defaults to 20.
+     */
+    maxLargest?: number;
+    threadId?: number;
+    requestOptions?: RequestOptions;
+    /**
+     * Called after each batch of objects is visited.
+     */
+    onProgress?: (visited: number, pending: number) => void;
+}
+
+export interface HeapObject {
+    /**
+     * Reference of the object. Only valid during the stop the snapshot was taken in.
+     */
+    ref: number;
+    /**
+     * Shortest path the object was found at, e.g. `globalThis.cache.entities[3]`.
+     */
+    path: string;
+    constructorName: string;
+    kind: ObjectKind;
+    /**
+     * Length of arrays, number of entries of maps and sets, number of own properties otherwise.
+     */
+    size: number;
+}
+
+export interface HeapConstructorStats {
+    constructorName: string;
+    count: number;
+    /**
+     * Sum of the sizes of the objects.
+     */
+    size: number;
+}
+
+export interface HeapSnapshot {
+    timestamp: number;
+    /**
+     * Whether the walk stopped at `maxObjects`.
+     */
+    truncated: boolean;
+    objects: HeapObject[];
+    /**
+     * Object counts by constructor, most frequent first.
+     */
+    constructors: HeapConstructorStats[];
+    /**
+     * Objects with the largest sizes, largest first.
+     */
+    largest: HeapObject[];
+}
+
+export interface HeapConstructorDelta {
+    constructorName: string;
+    before: number;
+    after: number;
+    delta: number;
+}
+
+export interface HeapObjectDelta {
+    path: string;
+    constructorName: string;
+    before: number;
+    after: number;
+    delta: number;
+}
+
+export interface HeapDiff {
+    /**
+     * Constructors whose object count changed, largest growth first.
+     */
+    constructors: HeapConstructorDelta[];
+    /**
+     * Objects found at the same path in both snapshots whose size changed, largest growth first.
+     */
+    objects: HeapObjectDelta[];
+}
+
+interface PendingObject {
+    handle: QuickJSHandle;
+    path: string;
+}
+
+const identifierRegex = /^[A-Za-z_$][\w$]*$/;
+const indexRegex = /^\d+$/;
+const defaultMaxObjects = 20000;
+// Globals the debugger itself defines in the debuggee
+const debuggerGlobals = new Set([pinnedRegistryName, asyncRegistryName]);
+const batchSize = 8;
+
+const builtinConstructors: Partial<Record<ObjectKind, string>> = {
+    function: 'Function',
+    class: 'Function',
+    map: 'Map',
+    set: 'Set',
+    date: 'Date',
+    regexp: 'RegExp',
+};
+
+function childPath(path: string, name: string) {
+    if (indexRegex.test(name)) return `${path}[${name}]`;
+    if (identifierRegex.test(name)) return `${path}.${name}`;
+    return `${path}[${JSON.stringify(name)}]`;
+}
+
+/**
+ * Walks the objects reachable from `globalThis`, and optionally from every scope, breadth first.
+ * Objects are told apart by their reference, so each is counted once at its shortest path.
+ * The debuggee must stay paused while the snapshot is taken.
+ */
+export async function takeHeapSnapshot(
+    session: QuickJSDebugSession,
+    options?: HeapSnapshotOptions,
+): Promise<HeapSnapshot> {
+    const {
+        includeScopes = false,
+        includePrototypes = false,
+        maxObjects = defaultMaxObjects,
+        maxLargest = 20,
+        threadId,
+        requestOptions,
+        onProgress,
+    } = options ?? {};
+    const frames = await session.traceStack(requestOptions, threadId);
+    const [topFrame] = frames;
+    if (!topFrame) {
+        throw new Error('No stack frame');
+    }
+    const visited = new Set<number>();
+    const objects: HeapObject[] = [];
+    const queue: PendingObject[] = [];
+    const protoNames = new Map<number, Promise<string>>();
+
+    const enqueue = (handle: QuickJSHandle, path: string) => {
+        if (handle.primitive || !handle.ref || visited.has(handle.ref)) return;
+        visited.add(handle.ref);
+        queue.push({ handle, path });
+    };
+    const getConstructorName = (proto: QuickJSHandle) => {
+        let name = protoNames.get(proto.ref);
+        if (!name) {
+            name = proto.getProperties(undefined, requestOptions).then(
+                (properties) => {
+                    const protoConstructor = properties.find((e) => e.name === 'constructor');
+                    return getFunctionName(protoConstructor?.valueAsString) || 'Object';
+                },
+                (err: unknown) => {
+                    if (requestOptions?.signal?.aborted || err instanceof StaleHandleError) throw err;
+                    return 'Object';
+                },
+            );
+            protoNames.set(proto.ref, name);
+        }
+        return name;
+    };
+    // Keys and values of maps and sets are not properties, they are read into a temporary array that is not counted
+    const getEntries = async (handle: QuickJSHandle, method: 'keys' | 'values') => {
+        const { source } = handle;
+        if (!source) return null;
+        try {
+            const values = await session.evaluate(
+                source.frameId,
+                `Array.from(${source.expression}.${method}())`,
+                undefined,
+                requestOptions,
+            );
+            return values.isArray ? values : null;
+        } catch (err) {
+            if (requestOptions?.signal?.aborted) throw err;
+            return null;
+        }
+    };
+    const visit = async ({ handle, path }: PendingObject) => {
+        const kind = detectObjectKind(handle.type, handle.valueAsString, handle.isArray);
+        const object: HeapObject = { ref: handle.ref, path, constructorName: 'Object', kind, size: 0 };
+        objects.push(object);
+        if (kind === 'map' || kind === 'set') {
+            const values = await getEntries(handle, 'values');
+            object.size = values?.indexedCount ?? 0;
+            if (values) {
+                for await (const value of values.properties({ filter: 'indexed', requestOptions })) {
+                    enqueue(value, `${path}.values()[${value.name}]`);
+                }
+            }
+        }
+        if (kind === 'map') {
+            const keys = await getEntries(handle, 'keys');
+            if (keys) {
+                for await (const key of keys.properties({ filter: 'indexed', requestOptions })) {
+                    enqueue(key, `${path}.keys()[${key.name}]`);
+                }
+            }
+        }
+        const properties: QuickJSHandle[] = [];
+        try {
+            for await (const property of handle.properties({ requestOptions })) {
+                properties.push(property);
+            }
+        } catch (err) {
+            if (requestOptions?.signal?.aborted || err instanceof StaleHandleError) throw err;
+            properties.length = 0;
+        }
+        const isFunction = kind === 'function' || kind === 'class';
+        let ownCount = 0;
+        let proto: QuickJSHandle | undefined;
+        for (const property of properties) {
+            if (path === 'globalThis' && debuggerGlobals.has(property.name)) continue;
+            if (property.name === '__proto__') {
+                proto = property;
+                if (!includePrototypes) continue;
+            } else {
+                ownCount++;
+                if (isFunction && property.name === 'prototype' && !includePrototypes) continue;
+            }
+            enqueue(property, childPath(path, property.name));
+        }
+        if (handle.isArray) {
+            object.size = handle.indexedCount ?? ownCount;
+        } else if (kind !== 'map' && kind !== 'set') {
+            object.size = ownCount;
+        }
+        if (handle.isArray) {
+            object.constructorName = 'Array';
+        } else if (builtinConstructors[kind]) {
+            object.constructorName = builtinConstructors[kind];
+        } else if (kind === 'opaque') {
+            object.constructorName = (handle.valueAsString ?? '').slice(8, -1) || 'Object';
+        } else if (proto && !proto.primitive) {
+            object.constructorName = await getConstructorName(proto);
+        } else if (proto) {
+            object.constructorName = '(null prototype)';
+        }
+    };
+
+    const globalObject = await topFrame.evaluateExpression('globalThis', requestOptions);
+    enqueue(globalObject, 'globalThis');
+    if (includeScopes) {
+        for (const frame of frames) {
+            for (const scope of await frame.getScopes(requestOptions)) {
+                // The global scope is walked through `globalThis`
+                if (scope.expensive) continue;
+                const prefix = `(${frame.name} ${scope.name})`;
+                for (const variable of await scope.getProperties(undefined, requestOptions)) {
+                    enqueue(variable, `${prefix} ${variable.name}`);
+                }
+            }
+        }
+    }
+    let truncated = false;
+    while (queue.length) {
+        const remaining = maxObjects - objects.length;
+        if (remaining <= 0) {
+            truncated = true;
+            break;
+        }
+        const batch = queue.splice(0, Math.min(batchSize, remaining));
+        await Promise.all(batch.map(visit));
+        onProgress?.(objects.length, queue.length);
+    }
+
+    const stats = new Map<string, HeapConstructorStats>();
+    for (const object of objects) {
+        let entry = stats.get(object.constructorName);
+        if (!entry) {
+            entry = { constructorName: object.constructorName, count: 0, size: 0 };
+            stats.set(object.constructorName, entry);
+        }
+        entry.count++;
+        entry.size += object.size;
+    }
+    const constructors = [...stats.values()].sort((a, b) => b.count - a.count);
+    const largest = [...objects].sort((a, b) => b.size - a.size).slice(0, maxLargest);
+    return { timestamp: Date.now(), truncated, objects, constructors, largest };
+}
+
+/**
+ * Compares two snapshots. References change between stops, so objects are matched by path.
+ */
+export function diffHeapSnapshots(before: HeapSnapshot, after: HeapSnapshot): HeapDiff {
+    const counts = new Map<string, HeapConstructorDelta>();
+    for (const { constructorName, count } of before.constructors) {
+        counts.set(constructorName, { constructorName, before: count, after: 0, delta: -count });
+    }
+    for (const { constructorName, count } of after.constructors) {
+        const entry = counts.get(constructorName) ?? { constructorName, before: 0, after: 0, delta: 0 };
+        entry.after = count;
+        entry.delta = count - entry.before;
+        counts.set(constructorName, entry);
+    }
+    const beforeObjects = new Map(before.objects.map((e) => [e.path, e]));
+    const objects: HeapObjectDelta[] = [];
+    for (const object of after.objects) {
+        const previous = beforeObjects.get(object.path);
+        if (!previous || previous.size === object.size) continue;
+        objects.push({
+            path: object.path,
+            constructorName: object.constructorName,
+            before: previous.size,
+            after: object.size,
+            delta: object.size - previous.size,
+        });
+    }
+    return {
+        constructors: [...counts.values()].filter((e) => e.delta !== 0).sort((a, b) => b.delta - a.delta),
+        objects: objects.sort((a, b) => b.delta - a.delta),
+    };
+}
@@ -0,0 +1,135 @@
+import { type InspectOptionsStylized, inspect } from 'node:util';
+
+export type ObjectKind =
+    | 'object'
+    | 'plain'
+    | 'map'
+    | 'set'
+    | 'date'
+    | 'error'
+    | 'regexp'
+    | 'function'
+    | 'class'
+    | 'opaque';
+
+const dateRegex =
+    /^(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun) (?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) \d{2} -?\d+ \d{2}:\d{2}:\d{2} GMT[+-]\d{4}/;
+const errorRegex = /^([\w$]*Error)(?::\s([\s\S]*))?$/;
+const regexpRegex = /^\/((?:\\.|[^\\/])+)\/([dgimsuvy]*)$/;
+const classRegex = /^class(?:\s+([\w$]+))?[\s{]/;
+const functionRegex = /^(?:async\s+)?function\b\*?\s*([\w$]*)|^(?:async\s*)?(?:\([^)]*\)|[\w$]+)\s*=>/;
+const opaqueRegex = /^\[object (WeakMap|WeakSet|WeakRef|Promise|Proxy|ArrayBuffer|DataView)\]$/;
+
+/**
+ * Guesses the kind of a remote object from its type and string representation.
+ * Arrays are always plain, their string representation joins the items and may look like anything.
+ */
+export function detectObjectKind(
+    type: string | undefined,
+    valueAsString: string | undefined,
+    isArray?: boolean,
+): ObjectKind {
+    if (isArray) return 'plain';
+    const str = valueAsString ?? '';
+    if (classRegex.test(str)) return 'class';
+    if (type === 'function' || functionRegex.test(str)) return 'function';
+    if (str === '[object Object]') return 'object';
+    if (str === '[object Map]') return 'map';
+    if (str === '[object Set]') return 'set';
+    if (str === 'Invalid Date' || dateRegex.test(str)) return 'date';
+    if (errorRegex.test(str)) return 'error';
+    if (regexpRegex.test(str)) return 'regexp';
+    if (opaqueRegex.test(str)) return 'opaque';
+    return 'plain';
+}
+
+export function getFunctionName(source: string | undefined) {
+    const str = source ?? '';
+    return classRegex.exec(str)?.[1] ?? functionRegex.exec(str)?.[1] ?? '';
+}
+
+export function parseRegExp(valueAsString: string) {
+    const match = regexpRegex.exec(valueAsString);
+    return match ? new RegExp(match[1], match[2]) : /(?:)/;
+}
+
+const errorConstructors: Record<string, ErrorConstructor> = {
+    Error,
+    EvalError,
+    RangeError,
+    ReferenceError,
+    SyntaxError,
+    TypeError,
+    URIError,
+};
+
+/**
+ * Creates an error with the name and message of `valueAsString`, such as `TypeError: x is not a function`.
+ */
+export function createError(valueAsString: string) {
+    const [, name, message] = errorRegex.exec(valueAsString) ?? [];
+    const error = new (errorConstructors[name] ?? Error)(message ?? '');
+    if (name && !errorConstructors[name]) {
+        Object.defineProperty(error, 'name', { value: name, configurable: true, writable: true });
+    }
+    return error;
+}
+
+export function defineHiddenProperty(target: object, key: string, value: unknown) {
+    Object.defineProperty(target, key, { value, configurable: true, writable: true, enumerable: false });
+}
+
+const syntheticPrototypes = new Map<string, object>();
+
+/**
+ * Returns a stand-in prototype whose constructor has the given name, so inspected class instances
+ * keep their class name and compare equal to each other.
+ */
+export function getSyntheticPrototype(name: string) {
+    let prototype = syntheticPrototypes.get(name);
+    if (!prototype) {
+        prototype = { [name]: class {} }[name].prototype as object;
+        syntheticPrototypes.set(name, prototype);
+    }
+    return prototype;
+}
+
+/**
+ * Stands in for a remote value that cannot be copied, like a function, a getter, a `WeakMap` or a `Map` whose
+ * entries could not be read.
+ */
+export class QuickJSPlaceholder {
+    kind: 'function' | 'class' | 'getter' | 'opaque';
+    name: string;
+    /**
+     * Value read through the getter, if the debuggee reported one.
+     */
+    value?: unknown;
+    constructor(kind: QuickJSPlaceholder['kind'], name: string, value?: unknown) {
+        this.kind = kind;
+        this.name = name;
+        if (value !== undefined) {
+            this.value = value;
+        }
+    }
+
+    toString() {
+        switch (this.kind) {
+            case 'function':
+                return this.name ? `[Function: ${this.name}]` : '[Function (anonymous)]';
+            case 'class':
+                return this.name ? `[class ${this.name}]` : '[class (anonymous)]';
+            case 'getter':
+                return '[Getter]';
+            default:
+                return `[${this.name}]`;
+        }
+    }
+
+    [inspect.custom](_depth: number, options: InspectOptionsStylized, inspectValue: typeof inspect) {
+        if (this.kind === 'getter' && this.value !== undefined) {
+            return options.stylize(`[Getter: ${inspectValue(this.value, options)}]`, 'special');
+        }
+        return options.stylize(this.toString(), 'special');
+    }
+}
@@ -1,11 +1,7 @@
 import type EventEmitter from 'node:events';
+import { defaultSchedulerHooks, type SchedulerHook } from './async.js';
 import type { DebugConnection, DebuggeeEvent } from './connection.js';
-import {
-    type BreakpointInfo,
-    type BreakpointStatus,
-    QuickJSDebugSession,
-    type QuickJSDebugSessionEvents,
-} from './session.js';
+import { type BreakpointInfo, QuickJSDebugSession, type QuickJSDebugSessionEvents } from './session.js';
 
 export enum ProtocolVersion {
     Unknown = 0,
@@ -194,6 +190,14 @@ function mergeStatTreeNodeV2(target: StatTree, updated: StatDataModel[], tick: n
     return target;
 }
 
+/**
+ * `system.runJob` is left out, its generators run outside of the callback.
+ */
+const minecraftSchedulerHooks: SchedulerHook[] = [
+    ...defaultSchedulerHooks,
+    { module: '@minecraft/server', object: 'system', methods: ['run', 'runTimeout', 'runInterval'] },
+];
+
 export interface MinecraftDebugSessionEvents extends QuickJSDebugSessionEvents {
     log: [event: LogEvent];
     protocol: [event: ProtocolEvent];
@@ -219,6 +223,7 @@ export class MinecraftDebugSession extends (QuickJSDebugSession as ExtendEventMa
     currentTick = 0;
     constructor(connection: DebugConnection, protocolInfo?: ProtocolInfo) {
         super(connection);
+        this.schedulerHooks = minecraftSchedulerHooks;
         if (protocolInfo) {
             this.setProtocolInfo(protocolInfo);
         }
@@ -228,7 +233,7 @@ export class MinecraftDebugSession extends (QuickJSDebugSession as ExtendEventMa
         connection.on('event:ProtocolEvent', (ev) => {
             const protocolEvent = ev as ProtocolEvent;
             this.protocolVersion = protocolEvent.version;
-            this.emit('protocol', protocolEvent);
+            // Answer before listeners send requests, the debuggee ignores them until then
             if (this.protocolInfo) {
                 const protocolInfo = this.protocolInfo;
                 this.connection.sendEnvelope('protocol', {
@@ -237,6 +242,7 @@ export class MinecraftDebugSession extends (QuickJSDebugSession as ExtendEventMa
                     passcode: protocolInfo.passcode,
                 });
             }
+            this.emit('protocol', protocolEvent);
         });
         const v1PathCache = new Map<string, string[]>();
         connection.on('event:StatEvent', (ev) => {
@@ -266,9 +272,7 @@ export class MinecraftDebugSession extends (QuickJSDebugSession as ExtendEventMa
             const breakpointLines = breakpoints.map((e) => e.line);
             return this.setBreakpointLines(fileName, breakpointLines);
         } else {
-            super.setBreakpoints(fileName, breakpoints);
-            const status: BreakpointStatus[] = breakpoints.map(() => ({ verified: true }));
-            return status;
+            return super.setBreakpoints(fileName, breakpoints);
         }
     }
 
@@ -0,0 +1,456 @@
+import EventEmitter from 'node:events';
+import { type AddressInfo, connect, createServer, type Socket } from 'node:net';
+import {
+    addMessageListener,
+    type DebugEnvelope,
+    type DebuggeeEvent,
+    type DebuggerRequest,
+    type DebugTransport,
+    encodeMessage,
+    QuickJSDebugConnection,
+} from './connection.js';
+import { LogLevel, ProtocolVersion, type StatDataModel, type StatDataV1 } from './minecraft.js';
+import type { ScopeInfo, StackFrameInfo, StoppedEvent, VariableInfo } from './session.js';
+
+export type MockValue =
+    | string
+    | number
+    | boolean
+    | null
+    | undefined
+    | ((...args: never[]) => unknown)
+    | MockValue[]
+    | { [key: string]: MockValue };
+
+export interface MockScope {
+    name: string;
+    expensive?: boolean;
+    variables: Record<string, MockValue>;
+}
+
+export interface MockFrame {
+    name: string;
+    filename: string;
+    line: number;
+    column?: number;
+    scopes?: MockScope[];
+    /**
+     * Whether an exception is thrown at this position. Continuing stops here if stopping on exceptions is enabled.
+     * Like QuickJS, the stop does not tell what was thrown or whether it will be caught.
+     */
+    throws?: boolean;
+}
+
+export interface MockFixture {
+    /**
+     * Protocol version to announce with a `ProtocolEvent` after connecting.
+     * No `ProtocolEvent` is sent if not specified, like plain QuickJS.
+     */
+    protocolVersion?: ProtocolVersion;
+    /**
+     * [Minecraft only] Plugins announced since {@link ProtocolVersion.SupportTargetSelection}.
+     */
+    plugins?: { name: string; module_uuid: string }[];
+    /**
+     * [Minecraft only] Whether a passcode is required since {@link ProtocolVersion.SupportPasscode}.
+     */
+    requirePasscode?: boolean;
+    /**
+     * Execution positions, each one a call stack with the top frame first.
+     * Stepping moves to the next position, continuing runs to the next position that hits a breakpoint.
+     */
+    timeline: MockFrame[][];
+    /**
+     * Results of `evaluate` requests, keyed by expression.
+     * Expressions not listed are looked up as variable names in the scopes of the frame.
+     */
+    evaluate?: Record<string, MockValue> | ((expression: string, frame: MockFrame) => MockValue);
+    /**
+     * Decides whether a breakpoint is verified. All breakpoints are verified if not specified.
+     */
+    verifyBreakpoint?: (path: string, line: number) => boolean;
+}
+
+export interface MockDebuggeeEvents {
+    envelope: [envelope: DebugEnvelope];
+    request: [request: DebuggerRequest];
+    end: [];
+}
+
+interface MockReferenceTarget {
+    value: Record<string, MockValue> | MockValue[];
+}
+
+function describeValue(name: string, value: MockValue, allocate: (target: MockReferenceTarget) => number) {
+    const info: VariableInfo = { name, value: '', type: typeof value, variablesReference: 0 };
+    if (value === null) {
+        info.type = 'null';
+        info.value = 'null';
+    } else if (typeof value === 'number') {
+        info.type = Number.isInteger(value) ? 'integer' : 'float';
+        info.value = String(value);
+    } else if (typeof value === 'function') {
+        info.type = 'object';
+        info.value = String(value);
+        info.variablesReference = allocate({ value: {} });
+    } else if (typeof value === 'object') {
+        info.type = 'object';
+        info.value = Object.getPrototypeOf(value) ? String(value) : '[object Object]';
+        info.variablesReference = allocate({ value });
+        if (Array.isArray(value)) {
+            info.indexedVariables = value.length;
+        }
+    } else {
+        info.value = String(value);
+    }
+    return info;
+}
+
+/**
+ * An in-process debuggee that answers the debugger from a declarative {@link MockFixture}.
+ *
+ * It speaks the same wire protocol as QuickJS and Minecraft, so it can stand in for either of them
+ * in tests and demos.
+ */
+export class MockDebuggee extends EventEmitter<MockDebuggeeEvents> {
+    fixture: MockFixture;
+    transport: DebugTransport | null = null;
+    /**
+     * Index into the timeline, `-1` before the debuggee starts running.
+     */
+    position = -1;
+    paused = false;
+    thread = 1;
+    stopOnException = false;
+    breakpoints = new Map<string, number[]>();
+    received: DebugEnvelope[] = [];
+    private references = new Map<number, MockReferenceTarget>();
+    /**
+     * The same object keeps its reference until the debuggee runs, so references identify objects.
+     */
+    private referenceIds = new Map<object, number>();
+    constructor(fixture: MockFixture) {
+        super();
+        this.fixture = fixture;
+    }
+
+    get protocolVersion() {
+        return this.fixture.protocolVersion ?? ProtocolVersion.Unknown;
+    }
+
+    get frames() {
+        return this.fixture.timeline[Math.max(this.position, 0)] ?? [];
+    }
+
+    /**
+     * Drives the given transport as the debuggee side.
+     */
+    attach(transport: DebugTransport) {
+        this.transport = transport;
+        addMessageListener(transport, (message) => {
+            this.handleMessage(JSON.parse(message.toString()) as DebugEnvelope);
+        });
+        transport.on('end', () => {
+            this.transport = null;
+            this.emit('end');
+        });
+        if (this.fixture.protocolVersion !== undefined) {
+            this.sendProtocolEvent();
+        }
+    }
+
+    /**
+     * Dials a debugger that is listening, like `/script debugger connect` does in Minecraft.
+     */
+    connectTo(port: number, host?: string) {
+        return new Promise<void>((resolve, reject) => {
+            const socket = connect(port, host ?? 'localhost');
+            socket.once('connect', () => {
+                socket.off('error', reject);
+                this.attach(socket);
+                resolve();
+            });
+            socket.once('error', reject);
+        });
+    }
+
+    /**
+     * Creates a {@link QuickJSDebugConnection} to this debuggee over a loopback socket.
+     */
+    async createConnection() {
+        const server = createServer();
+        const accepted = new Promise<Socket>((resolve) => {
+            server.once('connection', resolve);
+        });
+        await new Promise<void>((resolve) => {
+            server.listen(0, 'localhost', resolve);
+        });
+        const { port } = server.address() as AddressInfo;
+        const socket = connect(port, 'localhost');
+        this.attach(await accepted);
+        server.close();
+        return new QuickJSDebugConnection(socket);
+    }
+
+    close() {
+        this.transport?.end();
+    }
+
+    sendMessage(message: object) {
+        if (!this.transport) {
+            throw new Error('Debugger is not connected');
+        }
+        this.transport.write(encodeMessage({ version: 1, ...message }));
+    }
+
+    sendEvent(event: DebuggeeEvent) {
+        this.sendMessage({ type: 'event', event });
+    }
+
+    stop(reason: StoppedEvent['reason'] = 'breakpoint') {
+        this.position = Math.max(this.position, 0);
+        this.paused = true;
+        const event: StoppedEvent = { type: 'StoppedEvent', reason, thread: this.thread };
+        this.sendEvent(event);
+    }
+
+    print(message: string, logLevel = LogLevel.Info) {
+        this.sendEvent({ type: 'PrintEvent', message, logLevel } as DebuggeeEvent);
+    }
+
+    sendProtocolEvent() {
+        const version = this.protocolVersion;
+        const event: Record<string, unknown> = { type: 'ProtocolEvent', version };
+        if (version >= ProtocolVersion.SupportTargetSelection) {
+            event.plugins = this.fixture.plugins ?? [];
+        }
+        if (version >= ProtocolVersion.SupportPasscode) {
+            event.require_passcode = this.fixture.requirePasscode ?? false;
+        }
+        this.sendEvent(event as unknown as DebuggeeEvent);
+    }
+
+    sendStat(stats: StatDataV1[]) {
+        this.sendEvent({ type: 'StatEvent', stats } as DebuggeeEvent);
+    }
+
+    sendStat2(tick: number, stats: StatDataModel[]) {
+        this.sendEvent({ type: 'StatEvent2', tick, stats } as DebuggeeEvent);
+    }
+
+    sendProfilerCapture(captureBasePath: string, captureData: string) {
+        this.sendEvent({
+            type: 'ProfilerCapture',
+            capture_base_path: captureBasePath,
+            capture_data: captureData,
+        } as DebuggeeEvent);
+    }
+
+    sendThreadEvent(reason: 'new' | 'exited', thread = this.thread) {
+        this.sendEvent({ type: 'ThreadEvent', reason, thread } as DebuggeeEvent);
+    }
+
+    terminate() {
+        this.sendEvent({ type: 'terminated' });
+    }
+
+    private handleMessage(envelope: DebugEnvelope) {
+        this.received.push(envelope);
+        this.emit('envelope', envelope);
+        const data = envelope as DebugEnvelope & Record<string, unknown>;
+        switch (envelope.type) {
+            case 'resume':
+                this.run();
+                break;
+            case 'breakpoints': {
+                const { path, breakpoints } = data.breakpoints as { path: string; breakpoints?: { line: number }[] };
+                this.breakpoints.set(
+                    path,
+                    (breakpoints ?? []).map((e) => e.line),
+                );
+                break;
+            }
+            case 'stopOnException':
+                this.stopOnException = data.stopOnException as boolean;
+                break;
+            case 'request': {
+                const request = data.request as DebuggerRequest;
+                this.emit('request', request);
+                try {
+                    const body = this.handleRequest(request.command, (request.args ?? {}) as Record<string, unknown>);
+                    this.sendMessage({ type: 'response', request_seq: request.request_seq, body });
+                } catch (err) {
+                    const error = err instanceof Error ? err.message : String(err);
+                    this.sendMessage({ type: 'response', request_seq: request.request_seq, error });
+                }
+                break;
+            }
+        }
+    }
+
+    private handleRequest(command: string, args: Record<string, unknown>): unknown {
+        switch (command) {
+            case 'continue':
+                this.run();
+                return undefined;
+            case 'pause':
+                setImmediate(() => this.stop('pause'));
+                return undefined;
+            case 'next':
+                this.step('step');
+                return undefined;
+            case 'stepIn':
+                this.step('stepIn');
+                return undefined;
+            case 'stepOut':
+                this.step('stepOut');
+                return undefined;
+            case 'stackTrace':
+                this.requirePaused();
+                return this.frames.map(
+                    (frame, id): StackFrameInfo => ({
+                        id,
+                        name: frame.name,
+                        filename: frame.filename,
+                        line: frame.line,
+                        column: frame.column ?? 0,
+                    }),
+                );
+            case 'scopes': {
+                const frame = this.getFrame(args.frameId as number);
+                return (frame.scopes ?? []).map(
+                    (scope): ScopeInfo => ({
+                        name: scope.name,
+                        reference: this.allocate({ value: scope.variables }),
+                        expensive: scope.expensive ?? false,
+                    }),
+                );
+            }
+            case 'variables':
+                return this.getVariables(args);
+            case 'evaluate':
+                return this.evaluate(args.frameId as number, args.expression as string);
+            case 'setBreakpoints': {
+                if (this.protocolVersion < ProtocolVersion.SupportBreakpointsAsRequest) {
+                    throw new Error(`Unknown command: ${command}`);
+                }
+                const path = args.path as string;
+                const lines = (args.breakpoints ?? []) as number[];
+                this.breakpoints.set(path, lines);
+                const verify = this.fixture.verifyBreakpoint ?? (() => true);
+                return { breakpoints: lines.map((line) => ({ verified: verify(path, line) })) };
+            }
+            default:
+                throw new Error(`Unknown command: ${command}`);
+        }
+    }
+
+    private requirePaused() {
+        if (!this.paused) {
+            throw new Error('Debuggee is running');
+        }
+    }
+
+    private getFrame(frameId: number) {
+        this.requirePaused();
+        const frame = this.frames[frameId];
+        if (!frame) {
+            throw new Error(`Invalid frame: ${frameId}`);
+        }
+        return frame;
+    }
+
+    private allocate(target: MockReferenceTarget) {
+        const existing = this.referenceIds.get(target.value);
+        if (existing !== undefined) return existing;
+        const reference = this.references.size + 1;
+        this.references.set(reference, target);
+        this.referenceIds.set(target.value, reference);
+        return reference;
+    }
+
+    private getVariables(args: Record<string, unknown>) {
+        this.requirePaused();
+        const target = this.references.get(args.variablesReference as number);
+        if (!target) {
+            throw new Error(`Invalid reference: ${String(args.variablesReference)}`);
+        }
+        const allocate = this.allocate.bind(this);
+        if (Array.isArray(target.value)) {
+            const length = describeValue('length', target.value.length, allocate);
+            if (args.filter === 'named') {
+                return [length];
+            }
+            const start = (args.start as number | undefined) ?? 0;
+            const count = (args.count as number | undefined) ?? target.value.length;
+            const indexed = target.value
+                .slice(start, start + count)
+                .map((e, i) => describeValue(`${start + i}`, e, allocate));
+            if (args.filter === 'indexed') {
+                return indexed;
+            }
+            return [...indexed, length];
+        }
+        if (args.filter === 'indexed') {
+            return [];
+        }
+        return Object.entries(target.value).map(([k, v]) => describeValue(k, v, allocate));
+    }
+
+    private evaluate(frameId: number, expression: string) {
+        const frame = this.getFrame(frameId);
+        const { evaluate } = this.fixture;
+        let value: MockValue;
+        if (typeof evaluate === 'function') {
+            value = evaluate(expression, frame);
+        } else if (evaluate && Object.hasOwn(evaluate, expression)) {
+            value = evaluate[expression];
+        } else {
+            const scope = frame.scopes?.find((e) => Object.hasOwn(e.variables, expression));
+            if (!scope) {
+                throw new Error(`ReferenceError: '${expression}' is not defined`);
+            }
+            value = scope.variables[expression];
+        }
+        const info = describeValue('result', value, this.allocate.bind(this));
+        return {
+            result: info.value,
+            type: info.type,
+            variablesReference: info.variablesReference,
+            indexedVariables: info.indexedVariables,
+        };
+    }
+
+    private hitsBreakpoint(frames: MockFrame[] | undefined) {
+        const top = frames?.[0];
+        return top ? (this.breakpoints.get(top.filename)?.includes(top.line) ?? false) : false;
+    }
+
+    private run() {
+        this.paused = false;
+        this.references.clear();
+        this.referenceIds.clear();
+        const { timeline } = this.fixture;
+        for (let i = this.position + 1; i < timeline.length; i++) {
+            if (this.stopOnException && timeline[i][0]?.throws) {
+                this.position = i;
+                setImmediate(() => this.stop('exception'));
+                return;
+            }
+            if (this.hitsBreakpoint(timeline[i])) {
+                this.position = i;
+                setImmediate(() => this.stop('breakpoint'));
+                return;
+            }
+        }
+        this.position = Math.max(timeline.length - 1, 0);
+    }
+
+    private step(reason: StoppedEvent['reason']) {
+        this.paused = false;
+        this.references.clear();
+        this.referenceIds.clear();
+        this.position = Math.min(this.position + 1, Math.max(this.fixture.timeline.length - 1, 0));
+        setImmediate(() => this.stop(reason));
+    }
+}
@@ -0,0 +1,151 @@
+import EventEmitter from 'node:events';
+import type { DebugConnection, DebugConnectionEvents, DebuggeeEvent, RequestOptions } from './connection.js';
+
+/**
+ * Opens a new connection. `signal` is aborted when the reconnecting connection is closed, and the factory should
+ * stop dialing then.
+ */
+export type DebugConnectionFactory = (signal: AbortSignal) => Promise<DebugConnection>;
+
+export interface ReconnectingDebugConnectionEvents extends DebugConnectionEvents {
+    connect: [connection: DebugConnection];
+    disconnect: [];
+}
+
+/**
+ * A {@link DebugConnection} that survives dropped sockets.
+ *
+ * Events of the underlying connection are re-emitted. Breakpoints, stop-on-exception settings and
+ * the initial resume are recorded and replayed to every new connection.
+ * `end` is only emitted after {@link close} is called or the factory gives up.
+ */
+export class ReconnectingDebugConnection
+    extends EventEmitter<ReconnectingDebugConnectionEvents>
+    implements DebugConnection
+{
+    factory: DebugConnectionFactory;
+    current: DebugConnection | null = null;
+    closed = false;
+    resumed = false;
+    stopOnException?: object;
+    breakpointEnvelopes = new Map<string, object>();
+    breakpointRequests = new Map<string, object>();
+    private abortController = new AbortController();
+    constructor(factory: DebugConnectionFactory) {
+        super();
+        this.factory = factory;
+    }
+
+    get connected() {
+        return this.current !== null;
+    }
+
+    start() {
+        this.reconnect().catch((err) => {
+            // Dials aborted by close() are expected
+            if (this.closed) return;
+            this.emit('error', err);
+            this.closed = true;
+            this.emit('end');
+        });
+    }
+
+    private async reconnect() {
+        while (!this.closed) {
+            const connection = await this.factory(this.abortController.signal);
+            if (this.closed) {
+                connection.close();
+                return;
+            }
+            const ended = new Promise<void>((resolve) => {
+                connection.once('end', resolve);
+            });
+            this.attach(connection);
+            await ended;
+            this.detach(connection);
+        }
+    }
+
+    private attach(connection: DebugConnection) {
+        const onEvent = (ev: DebuggeeEvent) => {
+            this.emit('event', ev);
+            this.emit(`event:${ev.type}`, ev);
+        };
+        const onError = (err: unknown) => {
+            this.emit('error', err);
+        };
+        connection.on('event', onEvent);
+        connection.on('error', onError);
+        connection.once('end', () => {
+            connection.off('event', onEvent);
+            connection.off('error', onError);
+        });
+        this.current = connection;
+        this.replay(connection);
+        this.emit('connect', connection);
+    }
+
+    private detach(connection: DebugConnection) {
+        if (this.current === connection) {
+            this.current = null;
+            if (!this.closed) {
+                this.emit('disconnect');
+            }
+        }
+    }
+
+    private replay(connection: DebugConnection) {
+        if (this.stopOnException) {
+            connection.sendEnvelope('stopOnException', this.stopOnException);
+        }
+        for (const data of this.breakpointEnvelopes.values()) {
+            connection.sendEnvelope('breakpoints', data);
+        }
+        for (const args of this.breakpointRequests.values()) {
+            connection.sendRequest('setBreakpoints', args).catch((err) => this.emit('error', err));
+        }
+        if (this.resumed) {
+            connection.sendEnvelope('resume');
+        }
+    }
+
+    close() {
+        if (this.closed) return;
+        this.closed = true;
+        this.abortController.abort(new Error('Connection is closed'));
+        if (this.current) {
+            this.current.close();
+            this.current = null;
+        }
+        this.emit('end');
+    }
+
+    sendEnvelope(type: string, data?: object) {
+        let replayable = true;
+        if (type === 'breakpoints' && data) {
+            const { path } = (data as { breakpoints: { path: string } }).breakpoints;
+            this.breakpointEnvelopes.set(path, data);
+        } else if (type === 'stopOnException') {
+            this.stopOnException = data;
+        } else if (type === 'resume') {
+            this.resumed = true;
+        } else {
+            replayable = false;
+        }
+        if (this.current) {
+            this.current.sendEnvelope(type, data);
+        } else if (!replayable) {
+            throw new Error('Debuggee is offline');
+        }
+    }
+
+    sendRequest<R = void, T extends object = object>(command: string, args?: T, options?: RequestOptions) {
+        if (command === 'setBreakpoints' && args) {
+            this.breakpointRequests.set((args as unknown as { path: string }).path, args);
+        }
+        if (this.current) {
+            return this.current.sendRequest<R, T>(command, args, options);
+        }
+        return Promise.reject(new Error('Debuggee is offline'));
+    }
+}
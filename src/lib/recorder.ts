@@ -0,0 +1,256 @@
+import EventEmitter from 'node:events';
+import { createWriteStream } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import type { Writable } from 'node:stream';
+import { isDeepStrictEqual } from 'node:util';
+import type { DebugConnection, DebugConnectionEvents, DebuggeeEvent, RequestOptions } from './connection.js';
+
+interface TraceRecordBase {
+    /**
+     * Milliseconds since epoch.
+     */
+    time: number;
+    direction: 'send' | 'receive';
+}
+
+export interface EnvelopeTraceRecord extends TraceRecordBase {
+    direction: 'send';
+    kind: 'envelope';
+    type: string;
+    data?: object;
+}
+
+export interface RequestTraceRecord extends TraceRecordBase {
+    direction: 'send';
+    kind: 'request';
+    seq: number;
+    command: string;
+    args?: object;
+}
+
+export interface ResponseTraceRecord extends TraceRecordBase {
+    direction: 'receive';
+    kind: 'response';
+    seq: number;
+    body?: unknown;
+    error?: string;
+}
+
+export interface EventTraceRecord extends TraceRecordBase {
+    direction: 'receive';
+    kind: 'event';
+    event: DebuggeeEvent;
+}
+
+export interface EndTraceRecord extends TraceRecordBase {
+    direction: 'receive';
+    kind: 'end';
+}
+
+export type TraceRecord =
+    | EnvelopeTraceRecord
+    | RequestTraceRecord
+    | ResponseTraceRecord
+    | EventTraceRecord
+    | EndTraceRecord;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Wraps a {@link DebugConnection} and writes every sent envelope, request, response and event
+ * to a JSON Lines trace.
+ */
+export class RecordingDebugConnection extends EventEmitter<DebugConnectionEvents> implements DebugConnection {
+    connection: DebugConnection;
+    output: Writable;
+    traceSeq = 1;
+    constructor(connection: DebugConnection, output: Writable | string) {
+        super();
+        this.connection = connection;
+        this.output = typeof output === 'string' ? createWriteStream(output, { flags: 'a' }) : output;
+        connection.on('event', (ev) => {
+            this.write({ direction: 'receive', kind: 'event', event: ev });
+            this.emit('event', ev);
+            this.emit(`event:${ev.type}`, ev);
+        });
+        connection.on('error', (err) => this.emit('error', err));
+        connection.on('end', () => {
+            this.write({ direction: 'receive', kind: 'end' });
+            if (typeof output === 'string') {
+                this.output.end();
+            }
+            this.emit('end');
+        });
+    }
+
+    write(record: DistributiveOmit<TraceRecord, 'time'>) {
+        this.output.write(`${JSON.stringify({ time: Date.now(), ...record })}\n`);
+    }
+
+    close() {
+        this.connection.close();
+    }
+
+    sendEnvelope(type: string, data?: object) {
+        this.write({ direction: 'send', kind: 'envelope', type, data });
+        this.connection.sendEnvelope(type, data);
+    }
+
+    async sendRequest<R = void, T extends object = object>(command: string, args?: T, options?: RequestOptions) {
+        const seq = this.traceSeq++;
+        this.write({ direction: 'send', kind: 'request', seq, command, args });
+        try {
+            const body = await this.connection.sendRequest<R, T>(command, args, options);
+            this.write({ direction: 'receive', kind: 'response', seq, body });
+            return body;
+        } catch (err) {
+            const error = err instanceof Error ? err.message : String(err);
+            this.write({ direction: 'receive', kind: 'response', seq, error });
+            throw err;
+        }
+    }
+}
+
+export function parseTrace(content: string) {
+    return content
+        .split('\n')
+        .filter((line) => line.trim().length > 0)
+        .map((line) => JSON.parse(line) as TraceRecord);
+}
+
+export interface ReplayOptions {
+    /**
+     * Keep the recorded delay between received messages instead of replaying as fast as possible.
+     */
+    realtime?: boolean;
+}
+
+/**
+ * Plays a trace written by {@link RecordingDebugConnection} back as if the debuggee were live.
+ *
+ * Received messages are emitted in recorded order. Replay waits at each recorded send until
+ * the session sends a matching envelope or request, so the session drives the replay like it
+ * drove the original debuggee. Requests that were never recorded with the same command and arguments
+ * are rejected.
+ */
+export class ReplayDebugConnection extends EventEmitter<DebugConnectionEvents> implements DebugConnection {
+    records: TraceRecord[];
+    options: ReplayOptions;
+    cursor = 0;
+    closed = false;
+    private consumed = new Set<number>();
+    private pendingRequests = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+    private draining = false;
+    constructor(records: TraceRecord[], options?: ReplayOptions) {
+        super();
+        this.records = records;
+        this.options = options ?? {};
+    }
+
+    static async load(path: string, options?: ReplayOptions) {
+        return new ReplayDebugConnection(parseTrace(await readFile(path, 'utf-8')), options);
+    }
+
+    get finished() {
+        return this.cursor >= this.records.length;
+    }
+
+    /**
+     * Starts emitting received messages up to the first recorded send.
+     */
+    start() {
+        this.drain().catch((err) => this.emit('error', err));
+    }
+
+    close() {
+        if (this.closed) return;
+        this.closed = true;
+        for (const { reject } of this.pendingRequests.values()) {
+            reject(new Error('Protocol is closed'));
+        }
+        this.pendingRequests.clear();
+        this.emit('end');
+    }
+
+    private findSend(predicate: (record: EnvelopeTraceRecord | RequestTraceRecord) => boolean) {
+        for (let i = this.cursor; i < this.records.length; i++) {
+            const record = this.records[i];
+            if (record.direction === 'send' && !this.consumed.has(i) && predicate(record)) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    sendEnvelope(type: string, _data?: object) {
+        const index = this.findSend((e) => e.kind === 'envelope' && e.type === type);
+        if (index >= 0) {
+            this.consumed.add(index);
+            this.start();
+        }
+    }
+
+    sendRequest<R = void, T extends object = object>(command: string, args?: T) {
+        // Recorded arguments went through JSON, which drops `undefined` values
+        const normalizedArgs = args === undefined ? undefined : (JSON.parse(JSON.stringify(args)) as unknown);
+        const index = this.findSend(
+            (e) => e.kind === 'request' && e.command === command && isDeepStrictEqual(e.args, normalizedArgs),
+        );
+        if (index < 0 || this.closed) {
+            return Promise.reject(new Error(`No recorded response for ${command} ${JSON.stringify(normalizedArgs)}`));
+        }
+        const record = this.records[index] as RequestTraceRecord;
+        const { promise, resolve, reject } = Promise.withResolvers<R>();
+        this.pendingRequests.set(record.seq, { resolve: resolve as (value: unknown) => void, reject });
+        this.consumed.add(index);
+        this.start();
+        return promise;
+    }
+
+    private async drain() {
+        if (this.draining) return;
+        this.draining = true;
+        try {
+            let lastTime: number | undefined;
+            while (!this.closed && this.cursor < this.records.length) {
+                const record = this.records[this.cursor];
+                if (record.direction === 'send') {
+                    if (!this.consumed.has(this.cursor)) break;
+                    this.cursor++;
+                    continue;
+                }
+                const delay = this.options.realtime && lastTime !== undefined ? record.time - lastTime : 0;
+                await new Promise((resolve) => setTimeout(resolve, Math.max(delay, 0)));
+                lastTime = record.time;
+                this.cursor++;
+                this.replay(record);
+            }
+        } finally {
+            this.draining = false;
+        }
+    }
+
+    private replay(record: ResponseTraceRecord | EventTraceRecord | EndTraceRecord) {
+        switch (record.kind) {
+            case 'event':
+                this.emit('event', record.event);
+                this.emit(`event:${record.event.type}`, record.event);
+                break;
+            case 'response': {
+                const reaction = this.pendingRequests.get(record.seq);
+                if (reaction) {
+                    this.pendingRequests.delete(record.seq);
+                    if (record.error !== undefined) {
+                        reaction.reject(new Error(record.error));
+                    } else {
+                        reaction.resolve(record.body);
+                    }
+                }
+                break;
+            }
+            case 'end':
+                this.close();
+                break;
+        }
+    }
+}
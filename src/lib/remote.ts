@@ -0,0 +1,136 @@
+import type { DebugProtocol } from '@vscode/debugprotocol';
+import { type QuickJSHandle, QuickJSVariable } from './session.js';
+
+/**
+ * A lazily resolved property path. Awaiting it yields a primitive value or a {@link RemoteObject}.
+ */
+export type RemotePath = PromiseLike<unknown> & { readonly [key: string | number]: RemotePath };
+
+/**
+ * A remote object whose properties are fetched on access.
+ */
+export type RemoteObject = { readonly [key: string | number]: RemotePath };
+
+const RemoteResolver = Symbol('RemoteResolver');
+
+interface RemoteNode {
+    [RemoteResolver]: () => Promise<QuickJSHandle>;
+}
+
+const indexRegex = /^\d+$/;
+
+function getResolver(node: unknown) {
+    const resolver = (node as Partial<RemoteNode> | null | undefined)?.[RemoteResolver];
+    if (typeof resolver !== 'function') {
+        throw new TypeError('Not a remote object');
+    }
+    return resolver;
+}
+
+async function getChild(handle: QuickJSHandle, key: string) {
+    if (handle.primitive) {
+        throw new TypeError(`Cannot read properties of ${String(handle)} (reading '${key}')`);
+    }
+    let options: Omit<DebugProtocol.VariablesArguments, 'variablesReference'> | undefined;
+    if (handle.isArray) {
+        // Named keys of arrays are listed without every index
+        options = indexRegex.test(key) ? { filter: 'indexed', start: Number(key), count: 1 } : { filter: 'named' };
+    }
+    const properties = await handle.getProperties(options);
+    const found = properties.find((e) => e.name === key);
+    if (found) {
+        return found;
+    }
+    return new QuickJSVariable(handle.session, {
+        name: key,
+        value: 'undefined',
+        type: 'undefined',
+        variablesReference: 0,
+    });
+}
+
+function toValue(handle: QuickJSHandle) {
+    return handle.primitive ? handle.primitiveValue : createRemoteObject(handle);
+}
+
+function createRemotePath(resolve: () => Promise<QuickJSHandle>): RemotePath {
+    let resolved: Promise<QuickJSHandle> | undefined;
+    const resolveOnce = () => {
+        if (!resolved) {
+            resolved = resolve();
+        }
+        return resolved;
+    };
+    return new Proxy({} as RemotePath, {
+        get(_target, key) {
+            if (key === RemoteResolver) {
+                return resolveOnce;
+            }
+            if (key === 'then') {
+                return (onFulfilled?: (value: unknown) => unknown, onRejected?: (reason: unknown) => unknown) =>
+                    resolveOnce().then(toValue).then(onFulfilled, onRejected);
+            }
+            if (typeof key === 'symbol') {
+                return undefined;
+            }
+            return createRemotePath(async () => getChild(await resolveOnce(), key));
+        },
+    });
+}
+
+/**
+ * Creates a {@link RemoteObject} over an object handle. Property lists are cached by the session until it runs again.
+ */
+export function createRemoteObject(handle: QuickJSHandle): RemoteObject {
+    const resolve = () => Promise.resolve(handle);
+    return new Proxy({} as RemoteObject, {
+        get(_target, key) {
+            if (key === RemoteResolver) {
+                return resolve;
+            }
+            if (typeof key === 'symbol' || key === 'then') {
+                return undefined;
+            }
+            return createRemotePath(async () => getChild(handle, key));
+        },
+    });
+}
+
+/**
+ * Returns the handle behind a {@link RemoteObject} or {@link RemotePath}.
+ */
+export async function remoteHandle(node: RemoteObject | RemotePath) {
+    return getResolver(node)();
+}
+
+export async function remoteRef(node: RemoteObject | RemotePath) {
+    return (await remoteHandle(node)).ref;
+}
+
+export async function isRemoteArray(node: RemoteObject | RemotePath) {
+    return (await remoteHandle(node)).isArray ?? false;
+}
+
+/**
+ * Lists own property names of a remote object, indices first for arrays.
+ */
+export async function remoteKeys(node: RemoteObject | RemotePath) {
+    const handle = await remoteHandle(node);
+    if (handle.primitive) {
+        return [];
+    }
+    const keys = new Set<string>();
+    if (handle.isArray) {
+        const count = handle.indexedCount ?? 0;
+        for (let i = 0; i < count; i++) {
+            keys.add(String(i));
+        }
+    }
+    const properties = await handle.getProperties(handle.isArray ? { filter: 'named' } : undefined);
+    for (const { name } of properties) {
+        if (name !== '__proto__') {
+            keys.add(name);
+        }
+    }
+    return [...keys];
+}
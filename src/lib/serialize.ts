@@ -0,0 +1,269 @@
+/**
+ * Tagged JSON for values that `JSON.stringify` cannot represent, like `undefined`, BigInts, `Map`s,
+ * typed arrays and cyclic objects.
+ *
+ * {@link encodeValue}, {@link decodeValue} and {@link invokeEncoded} run on both sides: the debugger calls them
+ * directly and sends their source to the debuggee. They must stay self-contained and only use syntax QuickJS supports.
+ */
+export type EncodedValue =
+    | null
+    | boolean
+    | number
+    | string
+    | { $t: 'undefined' }
+    | { $t: 'number'; v: 'NaN' | 'Infinity' | '-Infinity' | '-0' }
+    | { $t: 'bigint'; v: string }
+    | { $t: 'array'; i: number; v: EncodedValue[] }
+    | { $t: 'object'; i: number; v: [string, EncodedValue][] }
+    | { $t: 'map'; i: number; v: [EncodedValue, EncodedValue][] }
+    | { $t: 'set'; i: number; v: EncodedValue[] }
+    | { $t: 'date'; v: number }
+    | { $t: 'regexp'; v: string; f: string }
+    | { $t: 'error'; n: string; m: string; s?: string }
+    | { $t: 'typed'; c: string; v: (number | string)[] }
+    | { $t: 'seen'; v: number }
+    | { $t: 'ref'; v: number };
+
+/**
+ * Returns the index of an external reference for a value that should not be copied, or `undefined` to copy it.
+ */
+export type RefEncoder = (value: object) => number | undefined;
+export type RefDecoder = (index: number) => unknown;
+
+/**
+ * Encodes a value. Objects with a prototype other than the built-in ones are passed to `toRef`, and copied as
+ * plain objects if it returns `undefined`. Functions and symbols can only be passed by reference.
+ */
+export function encodeValue(value: unknown, toRef?: RefEncoder): EncodedValue {
+    const seen = new Map<object, number>();
+    function encode(v: unknown): EncodedValue {
+        if (v === undefined) return { $t: 'undefined' };
+        if (v === null || typeof v === 'boolean' || typeof v === 'string') return v;
+        if (typeof v === 'number') {
+            if (Number.isNaN(v)) return { $t: 'number', v: 'NaN' };
+            if (v === Infinity) return { $t: 'number', v: 'Infinity' };
+            if (v === -Infinity) return { $t: 'number', v: '-Infinity' };
+            if (Object.is(v, -0)) return { $t: 'number', v: '-0' };
+            return v;
+        }
+        if (typeof v === 'bigint') return { $t: 'bigint', v: String(v) };
+        if (typeof v !== 'object' && typeof v !== 'function') {
+            const ref = toRef ? toRef(Object(v) as object) : undefined;
+            if (ref === undefined) throw new TypeError(`Cannot encode ${typeof v}`);
+            return { $t: 'ref', v: ref };
+        }
+        const seenId = seen.get(v);
+        if (seenId !== undefined) return { $t: 'seen', v: seenId };
+        const proto = Object.getPrototypeOf(v) as object | null;
+        const builtin =
+            proto === null ||
+            proto === Object.prototype ||
+            proto === Array.prototype ||
+            proto === Map.prototype ||
+            proto === Set.prototype ||
+            v instanceof Date ||
+            v instanceof RegExp ||
+            v instanceof Error ||
+            v instanceof ArrayBuffer ||
+            ArrayBuffer.isView(v);
+        if (typeof v === 'function' || !builtin) {
+            const ref = toRef ? toRef(v) : undefined;
+            if (ref !== undefined) return { $t: 'ref', v: ref };
+            if (typeof v === 'function') throw new TypeError('Cannot encode a function');
+        }
+        if (v instanceof Date) return { $t: 'date', v: v.getTime() };
+        if (v instanceof RegExp) return { $t: 'regexp', v: v.source, f: v.flags };
+        if (v instanceof Error) {
+            const encoded: EncodedValue = { $t: 'error', n: v.name, m: v.message };
+            if (typeof v.stack === 'string') encoded.s = v.stack;
+            return encoded;
+        }
+        if (v instanceof ArrayBuffer) return { $t: 'typed', c: 'ArrayBuffer', v: Array.from(new Uint8Array(v)) };
+        if (ArrayBuffer.isView(v) && !(v instanceof DataView)) {
+            const items = Array.from(v as unknown as ArrayLike<number | bigint>, (e) =>
+                typeof e === 'bigint' ? String(e) : e,
+            );
+            return { $t: 'typed', c: (Object.getPrototypeOf(v) as object).constructor.name, v: items };
+        }
+        const id = seen.size;
+        seen.set(v, id);
+        if (Array.isArray(v)) {
+            const items: EncodedValue[] = [];
+            for (let i = 0; i < v.length; i++) items.push(encode(v[i]));
+            return { $t: 'array', i: id, v: items };
+        }
+        if (v instanceof Map) {
+            const entries: [EncodedValue, EncodedValue][] = [];
+            v.forEach((mapValue, key) => {
+                entries.push([encode(key), encode(mapValue)]);
+            });
+            return { $t: 'map', i: id, v: entries };
+        }
+        if (v instanceof Set) {
+            const items: EncodedValue[] = [];
+            v.forEach((item) => {
+                items.push(encode(item));
+            });
+            return { $t: 'set', i: id, v: items };
+        }
+        const properties: [string, EncodedValue][] = [];
+        for (const key of Object.keys(v)) {
+            properties.push([key, encode((v as Record<string, unknown>)[key])]);
+        }
+        return { $t: 'object', i: id, v: properties };
+    }
+    return encode(value);
+}
+
+/**
+ * Decodes a value from {@link encodeValue}. References are resolved with `fromRef`.
+ */
+export function decodeValue(encoded: EncodedValue, fromRef?: RefDecoder): unknown {
+    const seen: unknown[] = [];
+    const globals = globalThis as unknown as Record<string, unknown>;
+    function decode(e: EncodedValue): unknown {
+        if (e === null || typeof e !== 'object') return e;
+        switch (e.$t) {
+            case 'undefined':
+                return undefined;
+            case 'number':
+                return e.v === '-0' ? -0 : Number(e.v);
+            case 'bigint':
+                return BigInt(e.v);
+            case 'date':
+                return new Date(e.v);
+            case 'regexp':
+                return new RegExp(e.v, e.f);
+            case 'error': {
+                const ErrorType = globals[e.n];
+                const isErrorType =
+                    typeof ErrorType === 'function' &&
+                    (ErrorType === Error || (ErrorType as ErrorConstructor).prototype instanceof Error);
+                const error = new (isErrorType ? (ErrorType as ErrorConstructor) : Error)(e.m);
+                if (error.name !== e.n) {
+                    Object.defineProperty(error, 'name', { value: e.n, configurable: true, writable: true });
+                }
+                // QuickJS stacks only contain the frames
+                const header = String(error);
+                const stack = e.s === undefined || e.s.indexOf(header) === 0 ? e.s || header : `${header}\n${e.s}`;
+                Object.defineProperty(error, 'stack', { value: stack, configurable: true, writable: true });
+                return error;
+            }
+            case 'typed': {
+                const bytes = e.c === 'ArrayBuffer' || typeof globals[e.c] !== 'function';
+                const TypedArray = (bytes ? Uint8Array : globals[e.c]) as new (items: unknown[]) => ArrayBufferView;
+                const items = e.v.map((item) => (typeof item === 'string' ? BigInt(item) : item));
+                const array = new TypedArray(items);
+                return e.c === 'ArrayBuffer' ? array.buffer : array;
+            }
+            case 'seen':
+                return seen[e.v];
+            case 'ref':
+                if (!fromRef) throw new TypeError('Unexpected reference');
+                return fromRef(e.v);
+            case 'array': {
+                const array: unknown[] = [];
+                seen[e.i] = array;
+                for (const item of e.v) array.push(decode(item));
+                return array;
+            }
+            case 'map': {
+                const map = new Map();
+                seen[e.i] = map;
+                for (const [key, value] of e.v) map.set(decode(key), decode(value));
+                return map;
+            }
+            case 'set': {
+                const set = new Set();
+                seen[e.i] = set;
+                for (const item of e.v) set.add(decode(item));
+                return set;
+            }
+            case 'object': {
+                const object: Record<string, unknown> = {};
+                seen[e.i] = object;
+                for (const [key, value] of e.v) {
+                    Object.defineProperty(object, key, {
+                        value: decode(value),
+                        configurable: true,
+                        enumerable: true,
+                        writable: true,
+                    });
+                }
+                return object;
+            }
+        }
+        throw new TypeError('Invalid encoded value');
+    }
+    return decode(encoded);
+}
+
+/**
+ * Returns code that evaluates to the value of `expression` encoded as JSON, to compare objects by content across
+ * stops. Functions and symbols all encode the same.
+ */
+export function snapshotExpression(expression: string) {
+    const toRef = 'function (v) { return typeof v === "function" || v instanceof Symbol ? 0 : undefined; }';
+    return `JSON.stringify((${String(encodeValue)})((${expression}), ${toRef}))`;
+}
+
+/**
+ * Global variable of the debuggee that holds values pinned during the current stop.
+ */
+export const pinnedRegistryName = '__quickjsDebuggerPinned';
+
+export function pinnedExpression(key: string) {
+    return `${pinnedRegistryName}.values.${key}`;
+}
+
+/**
+ * Runs in the debuggee. Calls `fn` with decoded arguments, where references are the values of `refs`.
+ * With a `pinKey` the result is pinned and returned as is, otherwise it is returned encoded as JSON
+ * and the objects passed by reference are pinned.
+ * Pinned values are released once a later stop pins something.
+ */
+export function invokeEncoded(
+    encode: typeof encodeValue,
+    decode: typeof decodeValue,
+    fn: (args: unknown) => unknown,
+    encodedArgs: EncodedValue,
+    refs: unknown[],
+    registryName: string,
+    generation: number,
+    pinKey: string | null,
+) {
+    const globals = globalThis as unknown as Record<
+        string,
+        { generation: number; next: number; values: Record<string, unknown> } | undefined
+    >;
+    let registry = globals[registryName];
+    if (!registry || registry.generation !== generation) {
+        registry = { generation, next: 0, values: {} };
+        Object.defineProperty(globalThis, registryName, { value: registry, configurable: true, writable: true });
+    }
+    const pinned = registry;
+    const result = fn(
+        decode(encodedArgs, (index) => {
+            return refs[index];
+        }),
+    );
+    if (pinKey !== null) {
+        pinned.values[pinKey] = result;
+        return result;
+    }
+    const resultRefs: string[] = [];
+    const value = encode(result, (object) => {
+        const key = `d${pinned.next++}`;
+        pinned.values[key] = object;
+        return resultRefs.push(key) - 1;
+    });
+    return JSON.stringify({ value, refs: resultRefs });
+}
+
+/**
+ * Result of {@link invokeEncoded} without a pin key. `refs` are the keys of the pinned objects.
+ */
+export interface EncodedResult {
+    value: EncodedValue;
+    refs: string[];
+}
@@ -1,22 +1,113 @@
 import EventEmitter from 'node:events';
 import type { DebugProtocol } from '@vscode/debugprotocol';
-import type { DebugConnection, DebuggeeEvent } from './connection.js';
+import {
+    type AsyncStackSegment,
+    type AsyncTrackingOptions,
+    asyncRegistryName,
+    defaultSchedulerHooks,
+    installAsyncHooks,
+    type RejectionEvent,
+    readAsyncState,
+    type SchedulerHook,
+    toAsyncStack,
+    uninstallAsyncHooks,
+} from './async.js';
+import type { DebugConnection, DebuggeeEvent, RequestOptions } from './connection.js';
+import {
+    createError,
+    defineHiddenProperty,
+    detectObjectKind,
+    getFunctionName,
+    getSyntheticPrototype,
+    parseRegExp,
+    QuickJSPlaceholder,
+} from './inspect.js';
+import { ReconnectingDebugConnection } from './reconnect.js';
+import { createRemoteObject, type RemoteObject } from './remote.js';
+import {
+    decodeValue,
+    type EncodedResult,
+    encodeValue,
+    invokeEncoded,
+    pinnedExpression,
+    pinnedRegistryName,
+} from './serialize.js';
+import type { SourceLocation } from './sourcemap.js';
+
+/**
+ * Arguments of an evaluated function. Any value can be given as a handle to a remote value instead.
+ */
+export type RemoteArgs<T> = T | QuickJSHandle<T> | { [K in keyof T]: RemoteArgs<T[K]> };
+
+function primitiveSource(value: unknown) {
+    if (typeof value === 'bigint') return `${value}n`;
+    if (typeof value === 'string') return JSON.stringify(value);
+    return Object.is(value, -0) ? '-0' : String(value);
+}
+
+/**
+ * Encodes arguments for a frame. Handles become expressions that evaluate to their values in the frame.
+ */
+function encodeArguments(args: unknown, frameId: number) {
+    const refs: string[] = [];
+    const encoded = encodeValue(args, (value) => {
+        if (!(value instanceof QuickJSHandle)) return undefined;
+        if (value.primitive) {
+            return refs.push(primitiveSource(value.primitiveValue)) - 1;
+        }
+        value.checkStale();
+        const { source } = value;
+        if (!source || (!source.global && source.frameId !== frameId)) {
+            throw new Error(`Handle ${value.name} cannot be reached from this frame, pass one from evaluateHandle`);
+        }
+        return refs.push(source.expression) - 1;
+    });
+    return { encoded, refs };
+}
+
+/**
+ * Returns an expression that evaluates to `value` in a frame.
+ */
+function generateValueCode(value: unknown, frameId: number) {
+    const { encoded, refs } = encodeArguments(value, frameId);
+    if (encoded === null || typeof encoded !== 'object') {
+        return JSON.stringify(encoded);
+    }
+    if (encoded.$t === 'ref') {
+        return refs[encoded.v];
+    }
+    return `(${String(decodeValue)})(${JSON.stringify(encoded)}, [${refs.join(', ')}])`;
+}
 
 function generateFunctionCode<T = unknown>(
     f: ((args: T) => unknown) | string,
-    args: T | undefined,
+    args: RemoteArgs<T> | undefined,
     type: 'eval' | 'function',
+    frameId: number,
+    generation: number,
+    pinKey: string | null,
 ) {
-    if (typeof f === 'function') {
-        const serializedArgs = JSON.stringify(args);
-        if (type === 'eval') {
-            return `(${String(f)})(${serializedArgs})`;
-        } else {
-            const serializedCode = JSON.stringify(`return (${String(f)})(arguments[0])`);
-            return `(new Function(${serializedCode}))(${serializedArgs})`;
-        }
+    const { encoded, refs } = encodeArguments(args, frameId);
+    let fn: string;
+    if (typeof f !== 'function') {
+        // An expression, evaluated in the frame. The arrow keeps the `this` and `arguments` of the frame
+        fn = `(() => (${f}))`;
+    } else if (type === 'eval') {
+        fn = `(${String(f)})`;
+    } else {
+        fn = `(new Function(${JSON.stringify(`return (${String(f)})`)}))()`;
     }
-    return String(f);
+    const invokeArgs = [
+        String(encodeValue),
+        String(decodeValue),
+        fn,
+        JSON.stringify(encoded),
+        `[${refs.join(', ')}]`,
+        JSON.stringify(pinnedRegistryName),
+        String(generation),
+        JSON.stringify(pinKey),
+    ];
+    return `(${String(invokeEncoded)})(${invokeArgs.join(', ')})`;
 }
 
 export interface StackFrameInfo {
@@ -33,49 +124,223 @@ export class QuickJSStackFrame {
     name: string;
     fileName: string;
     lineNumber: number;
+    columnNumber?: number;
+    /**
+     * Location in the original source, set when the frame is resolved through a source map.
+     */
+    original?: SourceLocation;
+    /**
+     * Thread the frame was requested for, if known.
+     */
+    threadId?: number;
+    generation: number;
     constructor(session: QuickJSDebugSession, frameInfo: StackFrameInfo) {
         this.session = session;
+        this.generation = session.generation;
         this.id = frameInfo.id;
         this.name = frameInfo.name;
         this.fileName = frameInfo.filename;
         this.lineNumber = frameInfo.line;
+        this.columnNumber = frameInfo.column;
+    }
+
+    get stale() {
+        return this.generation !== this.session.generation;
     }
 
-    async evaluateExpression<R = unknown>(expression: string) {
-        return this.session.evaluate<R>(this.id, expression);
+    checkStale() {
+        if (this.stale) {
+            throw new StaleHandleError();
+        }
+    }
+
+    async evaluateExpression<R = unknown>(expression: string, options?: RequestOptions) {
+        this.checkStale();
+        return this.session.evaluate<R>(this.id, expression, undefined, options);
     }
 
-    async evaluateHandle<T, R>(f: (args: T) => R, args?: T): Promise<QuickJSVariable<R>> {
-        return this.evaluateExpression<R>(generateFunctionCode(f, args, 'eval'));
+    /**
+     * Evaluates `expression` like {@link evaluateExpression}, but pins the result until the debuggee runs again,
+     * so the handle can be passed as an argument or assigned.
+     */
+    async pinExpression<R = unknown>(expression: string, options?: RequestOptions): Promise<QuickJSVariable<R>> {
+        return this.evaluatePinned<undefined, R>(expression, undefined, 'eval', options);
     }
 
-    async evaluateHandleGlobal<T, R>(f: (args: T) => R, args?: T): Promise<QuickJSVariable<R>> {
-        return this.evaluateExpression<R>(generateFunctionCode(f, args, 'function'));
+    /**
+     * Assigns a value to a variable visible in this frame and returns the updated variable.
+     * `value` is copied like arguments of {@link evaluateHandle}; pass a handle to assign a remote value.
+     */
+    async setLocal(name: string, value: unknown, options?: RequestOptions) {
+        this.checkStale();
+        if (!identifierRegex.test(name)) {
+            throw new Error(`Invalid variable name: ${name}`);
+        }
+        for (const scope of await this.getScopes(options)) {
+            if (scope.expensive) continue;
+            const properties = await scope.getProperties(undefined, options);
+            if (properties.some((e) => e.name === name)) {
+                return scope.setProperty(name, value, options);
+            }
+        }
+        // Closure variables and globals are not always listed
+        const result = await this.session.setExpression(this.id, name, generateValueCode(value, this.id), options);
+        result.name = name;
+        result.source = { frameId: this.id, expression: name };
+        return result;
     }
 
-    async evaluate<T, R>(f: (args: T) => R, args?: T): Promise<R> {
-        return (await this.evaluateHandle(f, args)).inspect();
+    private async evaluatePinned<T, R>(
+        f: ((args: T) => R) | string,
+        args: RemoteArgs<T> | undefined,
+        type: 'eval' | 'function',
+        options?: RequestOptions,
+    ) {
+        this.checkStale();
+        const pinKey = this.session.nextPinKey();
+        const code = generateFunctionCode(f, args, type, this.id, this.generation, pinKey);
+        const result = await this.evaluateExpression<R>(code, options);
+        result.source = { frameId: this.id, expression: pinnedExpression(pinKey), global: true };
+        return result;
     }
 
-    async evaluateGlobal<T, R>(f: (args: T) => R, args?: T): Promise<R> {
-        return (await this.evaluateHandleGlobal(f, args)).inspect();
+    private async evaluateEncoded<T, R>(
+        f: (args: T) => R,
+        args: RemoteArgs<T> | undefined,
+        type: 'eval' | 'function',
+        options?: RequestOptions,
+    ) {
+        this.checkStale();
+        const code = generateFunctionCode(f, args, type, this.id, this.generation, null);
+        const result = await this.evaluateExpression<string>(code, options);
+        const { value, refs } = JSON.parse(result.primitiveValue as string) as EncodedResult;
+        const referenced = await Promise.all(
+            refs.map(async (key) => {
+                const handle = await this.evaluateExpression(pinnedExpression(key), options);
+                handle.source = { frameId: this.id, expression: pinnedExpression(key), global: true };
+                return handle.inspect({ requestOptions: options });
+            }),
+        );
+        return decodeValue(value, (index) => referenced[index]) as R;
     }
 
-    async getScopes() {
-        return this.session.getScopes(this.id);
+    /**
+     * Calls `f` in this frame and returns a handle to the result. Arguments are copied with {@link encodeValue},
+     * except handles, which are passed as the remote values themselves. The result is pinned until the debuggee
+     * runs again, so it can be passed back as an argument.
+     */
+    async evaluateHandle<T, R>(
+        f: (args: T) => R,
+        args?: RemoteArgs<T>,
+        options?: RequestOptions,
+    ): Promise<QuickJSVariable<R>> {
+        return this.evaluatePinned(f, args, 'eval', options);
+    }
+
+    /**
+     * Like {@link evaluateHandle}, but `f` is created in the global scope and cannot see the locals of the frame.
+     */
+    async evaluateHandleGlobal<T, R>(
+        f: (args: T) => R,
+        args?: RemoteArgs<T>,
+        options?: RequestOptions,
+    ): Promise<QuickJSVariable<R>> {
+        return this.evaluatePinned(f, args, 'function', options);
+    }
+
+    /**
+     * Calls `f` in this frame and copies the result back with {@link decodeValue}. Objects that cannot be copied,
+     * like class instances and functions, are inspected instead.
+     */
+    async evaluate<T, R>(f: (args: T) => R, args?: RemoteArgs<T>, options?: RequestOptions): Promise<R> {
+        return this.evaluateEncoded(f, args, 'eval', options);
+    }
+
+    async evaluateGlobal<T, R>(f: (args: T) => R, args?: RemoteArgs<T>, options?: RequestOptions): Promise<R> {
+        return this.evaluateEncoded(f, args, 'function', options);
+    }
+
+    async getScopes(options?: RequestOptions) {
+        this.checkStale();
+        return this.session.getScopes(this.id, options, this.threadId);
     }
 }
 
 export interface InspectOptions {
     maxDepth?: number;
     inspectProto?: boolean;
+    /**
+     * Options applied to each `variables` request.
+     */
+    requestOptions?: RequestOptions;
+    /**
+     * Evaluate helper expressions in the debuggee to read `Map` and `Set` entries, exact `Date` values,
+     * constructor names and getters. Only objects reached from a scope or a simple expression can be helped.
+     * Maps and sets that cannot be helped become placeholders, since their size is unknown.
+     * Off by default: helpers reach the object again by its expression, which runs getters on the way and may find
+     * another object if a nearer scope shadows the name.
+     */
+    evaluateHelpers?: boolean;
+    /**
+     * Maximum number of properties or array items read from each object. Defaults to unlimited.
+     */
+    maxBreadth?: number;
+    /**
+     * Number of array items fetched per `variables` request. Defaults to 500.
+     */
+    pageSize?: number;
+}
+
+export interface EntriesOptions extends InspectOptions {
+    /**
+     * Only list array items or named properties. Both are listed by default, items first.
+     */
+    filter?: 'indexed' | 'named';
 }
 
 interface InspectInternalOptions {
     inspectProto?: boolean;
+    requestOptions?: RequestOptions;
+    evaluateHelpers?: boolean;
+    maxBreadth?: number;
+    pageSize?: number;
     referenceMap: Map<number, unknown>;
 }
 
+const defaultPageSize = 500;
+
+/**
+ * An expression that evaluates to the same object in a frame, used to run helper expressions on a handle.
+ */
+export interface HandleSource {
+    frameId: number;
+    expression: string;
+    /**
+     * Whether the expression evaluates to the same object in every frame.
+     */
+    global?: boolean;
+}
+
+interface ObjectDescription {
+    constructorName?: string;
+    getters: string[];
+}
+
+const indexRegex = /^\d+$/;
+const identifierRegex = /^[A-Za-z_$][\w$]*$/;
+const simplePathRegex = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*|\[(?:\d+|"(?:[^"\\]|\\.)*")\])*$/;
+
+function describeObjectHelper(expression: string) {
+    return `(function (o) {
+    var p = Object.getPrototypeOf(o);
+    var d = Object.getOwnPropertyDescriptors(o);
+    return JSON.stringify({
+        constructorName: p && p.constructor && p.constructor.name,
+        getters: Object.keys(d).filter(function (k) { return !!d[k].get; })
+    });
+})(${expression})`;
+}
+
 const QuickJSRef = Symbol('QuickJSRef');
 interface WithQuickJSRef {
     [QuickJSRef]: number;
@@ -91,76 +356,351 @@ export class QuickJSHandle<T = unknown> {
     isArray?: boolean;
     indexedCount?: number;
     valueAsString?: string;
+    /**
+     * How to reach this object again from a frame, if known.
+     */
+    source?: HandleSource;
+    generation: number;
     constructor(session: QuickJSDebugSession, reference: number) {
         this.session = session;
         this.ref = reference;
         this.name = `#${reference}`;
+        this.generation = session.generation;
+    }
+
+    /**
+     * Whether the debuggee ran since this handle was fetched. Stale references may point to other objects.
+     */
+    get stale() {
+        return this.generation !== this.session.generation;
+    }
+
+    checkStale() {
+        if (this.stale && !this.primitive) {
+            throw new StaleHandleError();
+        }
+    }
+
+    protected childSource(name: string): HandleSource | undefined {
+        if (!this.source) return undefined;
+        const { frameId, expression, global } = this.source;
+        if (name === '__proto__') {
+            return { frameId, expression: `Object.getPrototypeOf(${expression})`, global };
+        }
+        return { frameId, expression: `${expression}[${JSON.stringify(name)}]`, global };
+    }
+
+    async getProperties(
+        options?: Omit<DebugProtocol.VariablesArguments, 'variablesReference'>,
+        requestOptions?: RequestOptions,
+    ) {
+        this.checkStale();
+        const properties = await this.session.inspectVariable(this.ref, options, requestOptions);
+        for (const property of properties) {
+            property.source = this.childSource(property.name);
+        }
+        return properties;
+    }
+
+    /**
+     * Sets a property and returns the updated property. Uses a `setVariable` request if the debuggee supports it,
+     * otherwise assigns it with `evaluate`, which needs a handle reached from a scope or an evaluation.
+     * `value` is copied like arguments of {@link QuickJSStackFrame.evaluateHandle}; pass a handle to assign a remote value.
+     */
+    async setProperty(name: string, value: unknown, options?: RequestOptions) {
+        this.checkStale();
+        if (this.primitive) {
+            throw new TypeError(`Cannot set properties of ${String(this)} (setting '${name}')`);
+        }
+        const target = this.childSource(name);
+        let result: QuickJSVariable;
+        if (this.session.supportsSetVariable) {
+            const valueCode = generateValueCode(value, target?.frameId ?? -1);
+            result = await this.session.setVariable(this.ref, name, valueCode, options);
+        } else if (target) {
+            const valueCode = generateValueCode(value, target.frameId);
+            result = await this.session.setExpression(target.frameId, target.expression, valueCode, options);
+        } else {
+            throw new Error(`Cannot set '${name}' because ${this.name} cannot be reached from a frame`);
+        }
+        result.name = name;
+        result.source = target;
+        return result;
     }
 
-    async getProperties(options?: Omit<DebugProtocol.VariablesArguments, 'variablesReference'>) {
-        return this.session.inspectVariable(this.ref, options);
+    /**
+     * Returns a lazy view of the remote object, or the value itself if the handle is primitive.
+     * @example await (await handle.proxy()).world.players[0].name
+     */
+    async proxy(): Promise<RemoteObject> {
+        if (this.primitive) {
+            return this.primitiveValue as RemoteObject;
+        }
+        this.checkStale();
+        return createRemoteObject(this);
     }
 
     async inspect(options?: InspectOptions) {
+        this.checkStale();
         const referenceMap = new Map<number, unknown>();
-        const { maxDepth, inspectProto } = options ?? {};
-        return this.inspectInternal(maxDepth ?? 16, {
-            referenceMap,
-            inspectProto,
-        }) as Promise<T>;
+        const { maxDepth, ...internalOptions } = options ?? {};
+        return this.inspectInternal(maxDepth ?? 16, { ...internalOptions, referenceMap }) as Promise<T>;
+    }
+
+    /**
+     * Streams properties page by page, so huge arrays and objects can be walked without reading them at once.
+     */
+    async *properties(options?: EntriesOptions): AsyncGenerator<QuickJSVariable> {
+        if (this.primitive) return;
+        const { filter, maxBreadth = Infinity, pageSize = defaultPageSize, requestOptions } = options ?? {};
+        let remaining = maxBreadth;
+        if (this.isArray && filter !== 'named') {
+            const count = Math.min(this.indexedCount ?? 0, remaining);
+            for (let start = 0; start < count; start += pageSize) {
+                const page = await this.getProperties(
+                    { filter: 'indexed', start, count: Math.min(pageSize, count - start) },
+                    requestOptions,
+                );
+                remaining -= page.length;
+                yield* page;
+            }
+        }
+        if (filter !== 'indexed' && remaining > 0) {
+            const indexedCount = this.isArray ? (this.indexedCount ?? 0) : 0;
+            for await (const page of this.namedPages(remaining, pageSize, requestOptions)) {
+                const named = page.filter((e) => !(indexRegex.test(e.name) && Number(e.name) < indexedCount));
+                yield* named.slice(0, remaining);
+                remaining -= named.length;
+                if (remaining <= 0) break;
+            }
+        }
+    }
+
+    /**
+     * Reads named properties in pages of `pageSize`. Debuggees that do not page them answer with all of them
+     * or with the same page again, either ends the walk.
+     */
+    private async *namedPages(limit: number, pageSize: number, requestOptions?: RequestOptions) {
+        const seen = new Set<string>();
+        for (let start = 0; seen.size < limit; start += pageSize) {
+            const count = Math.min(pageSize, limit - seen.size);
+            const page = await this.getProperties(
+                { filter: this.isArray ? 'named' : undefined, start, count },
+                requestOptions,
+            );
+            const fresh = page.filter((e) => !seen.has(e.name));
+            for (const property of fresh) {
+                seen.add(property.name);
+            }
+            if (fresh.length) yield fresh;
+            if (page.length !== count || fresh.length < page.length) break;
+        }
+    }
+
+    /**
+     * Streams `[name, value]` pairs of the properties. Values are inspected with `maxDepth`, which defaults to 1.
+     * @example for await (const [key, value] of handle.entries({ maxBreadth: 100 })) { ... }
+     */
+    async *entries(options?: EntriesOptions): AsyncGenerator<[string, unknown]> {
+        const inspectOptions = { ...options, maxDepth: options?.maxDepth ?? 1 };
+        for await (const property of this.properties(options)) {
+            yield [property.name, await property.inspect(inspectOptions)];
+        }
+    }
+
+    private async getPagedProperties(options: InspectInternalOptions) {
+        const { requestOptions, maxBreadth, pageSize = defaultPageSize } = options;
+        if (!this.isArray) {
+            const properties: QuickJSVariable[] = [];
+            for await (const page of this.namedPages(maxBreadth ?? Infinity, pageSize, requestOptions)) {
+                properties.push(...page);
+            }
+            return maxBreadth !== undefined ? properties.slice(0, maxBreadth) : properties;
+        }
+        if (this.indexedCount === undefined) {
+            return this.getProperties({ filter: 'indexed', start: 0, count: maxBreadth }, requestOptions);
+        }
+        const count = Math.min(this.indexedCount, maxBreadth ?? Infinity);
+        const properties: QuickJSVariable[] = [];
+        for (let start = 0; start < count; start += pageSize) {
+            const page = await this.getProperties(
+                { filter: 'indexed', start, count: Math.min(pageSize, count - start) },
+                requestOptions,
+            );
+            properties.push(...page);
+        }
+        return properties;
     }
 
-    private async inspectInternal(depth: number, options: InspectInternalOptions) {
-        const { referenceMap, inspectProto } = options;
+    private async evaluateHelper(expression: (source: string) => string, options: InspectInternalOptions) {
+        const { source } = this;
+        if (!source || !options.evaluateHelpers) return undefined;
+        const helperExpression = expression(source.expression);
+        try {
+            const result = await this.session.evaluateInspectHelper(
+                source.frameId,
+                helperExpression,
+                options.requestOptions,
+            );
+            result.source = { frameId: source.frameId, expression: helperExpression };
+            return result;
+        } catch (err) {
+            if (options.requestOptions?.signal?.aborted) {
+                throw err;
+            }
+            return undefined;
+        }
+    }
+
+    private async describeObject(properties: QuickJSVariable[], options: InspectInternalOptions) {
+        const helperResult = await this.evaluateHelper(describeObjectHelper, options);
+        if (helperResult && typeof helperResult.primitiveValue === 'string') {
+            return JSON.parse(helperResult.primitiveValue) as ObjectDescription;
+        }
+        const description: ObjectDescription = { getters: [] };
+        const proto = properties.find((e) => e.name === '__proto__');
+        if (proto && !proto.primitive) {
+            try {
+                const protoProperties = await proto.getProperties(undefined, options.requestOptions);
+                const protoConstructor = protoProperties.find((e) => e.name === 'constructor');
+                description.constructorName = getFunctionName(protoConstructor?.valueAsString) || undefined;
+            } catch (err) {
+                if (options.requestOptions?.signal?.aborted || err instanceof StaleHandleError) {
+                    throw err;
+                }
+            }
+        }
+        return description;
+    }
+
+    private async inspectEntries(
+        expression: (source: string) => string,
+        depth: number,
+        options: InspectInternalOptions,
+    ) {
+        const entries = await this.evaluateHelper(expression, options);
+        if (!entries || !entries.isArray) return undefined;
+        return (await entries.inspectInternal(depth, options)) as unknown[];
+    }
+
+    /**
+     * Entries can only be read through helpers, so without them an empty collection would be a lie.
+     */
+    private placeholderForEntries(name: string, referenceMap: InspectInternalOptions['referenceMap']) {
+        const placeholder = new QuickJSPlaceholder('opaque', name);
+        referenceMap.set(this.ref, placeholder);
+        return placeholder;
+    }
+
+    private async inspectInternal(depth: number, options: InspectInternalOptions): Promise<unknown> {
+        const { referenceMap, inspectProto, requestOptions } = options;
         if (this.primitive) {
             return this.primitiveValue;
         }
         if (referenceMap.has(this.ref)) {
             return referenceMap.get(this.ref);
         }
-        if (this.type === 'object') {
-            if (depth > 0) {
-                let result: object;
-                let getPropOptions: Omit<DebugProtocol.VariablesArguments, 'variablesReference'> | undefined;
-                let properties: QuickJSVariable[];
-                if (this.isArray) {
-                    result = [];
-                    getPropOptions = {
-                        filter: 'indexed',
-                        start: 0,
-                        count: this.indexedCount,
-                    };
-                } else {
-                    result = {};
+        const kind = detectObjectKind(this.type, this.valueAsString, this.isArray);
+        if (kind === 'function' || kind === 'class') {
+            return new QuickJSPlaceholder(kind, getFunctionName(this.valueAsString));
+        }
+        if (kind === 'opaque') {
+            return new QuickJSPlaceholder(kind, (this.valueAsString ?? '').slice(8, -1));
+        }
+        if (this.type !== 'object' || depth <= 0) {
+            return String(this);
+        }
+        let result: object;
+        switch (kind) {
+            case 'map': {
+                const map = new Map();
+                referenceMap.set(this.ref, map);
+                const entries = await this.inspectEntries((e) => `Array.from(${e}.entries())`, depth + 1, options);
+                if (!entries) {
+                    return this.placeholderForEntries('Map', referenceMap);
                 }
-                referenceMap.set(this.ref, result);
-                try {
-                    properties = await this.getProperties(getPropOptions);
-                } catch (_) {
-                    properties = [];
+                for (const entry of entries) {
+                    const [key, value] = entry as [unknown, unknown];
+                    map.set(key, value);
                 }
-                await Promise.all(
-                    properties.map(async (property) => {
-                        if (property.name === '__proto__') {
-                            if (inspectProto) {
-                                const proto = await property.inspectInternal(depth - 1, options);
-                                if (typeof proto === 'object') {
-                                    Object.setPrototypeOf(result, proto);
-                                }
-                            }
-                        } else {
-                            (result as Record<string, unknown>)[property.name] = await property.inspectInternal(
-                                depth - 1,
-                                options,
-                            );
-                        }
-                    }),
-                );
-                (result as WithQuickJSRef)[QuickJSRef] = this.ref;
-                return result;
+                return map;
             }
+            case 'set': {
+                const set = new Set();
+                referenceMap.set(this.ref, set);
+                const entries = await this.inspectEntries((e) => `Array.from(${e})`, depth, options);
+                if (!entries) {
+                    return this.placeholderForEntries('Set', referenceMap);
+                }
+                for (const entry of entries) {
+                    set.add(entry);
+                }
+                return set;
+            }
+            case 'date': {
+                const time = await this.evaluateHelper((e) => `${e}.getTime()`, options);
+                const date = new Date(typeof time?.primitiveValue === 'number' ? time.primitiveValue : String(this));
+                referenceMap.set(this.ref, date);
+                return date;
+            }
+            case 'error':
+                result = createError(String(this));
+                defineHiddenProperty(result, 'stack', String(this));
+                break;
+            case 'regexp':
+                result = parseRegExp(String(this));
+                break;
+            default:
+                result = this.isArray ? [] : {};
+        }
+        referenceMap.set(this.ref, result);
+        let properties: QuickJSVariable[];
+        try {
+            properties = await this.getPagedProperties(options);
+        } catch (err) {
+            if (requestOptions?.signal?.aborted || err instanceof StaleHandleError) {
+                throw err;
+            }
+            properties = [];
+        }
+        const description = kind === 'object' ? await this.describeObject(properties, options) : undefined;
+        const getters = new Set(description?.getters);
+        await Promise.all(
+            properties.map(async (property) => {
+                if (property.name === '__proto__') {
+                    if (inspectProto) {
+                        const proto = await property.inspectInternal(depth - 1, options);
+                        if (typeof proto === 'object') {
+                            Object.setPrototypeOf(result, proto);
+                        }
+                    }
+                    return;
+                }
+                let value = await property.inspectInternal(depth - 1, options);
+                if (getters.has(property.name)) {
+                    value = new QuickJSPlaceholder('getter', property.name, value);
+                }
+                if (kind === 'error' && property.name === 'stack' && typeof value === 'string') {
+                    // QuickJS stacks only contain the frames
+                    const header = String(this);
+                    value = value.startsWith(header) ? value : `${header}\n${value}`;
+                }
+                if (
+                    (kind === 'error' && (property.name === 'message' || property.name === 'stack')) ||
+                    (kind === 'regexp' && property.name === 'lastIndex')
+                ) {
+                    defineHiddenProperty(result, property.name, value);
+                } else {
+                    (result as Record<string, unknown>)[property.name] = value;
+                }
+            }),
+        );
+        const { constructorName } = description ?? {};
+        if (!inspectProto && constructorName && constructorName !== 'Object') {
+            Object.setPrototypeOf(result, getSyntheticPrototype(constructorName));
         }
-        return String(this);
+        (result as WithQuickJSRef)[QuickJSRef] = this.ref;
+        return result;
     }
 
     toString() {
@@ -185,8 +725,10 @@ export interface ScopeInfo {
 
 export class QuickJSScope extends QuickJSHandle<Record<string, unknown>> {
     expensive: boolean;
-    constructor(session: QuickJSDebugSession, scopeInfo: ScopeInfo) {
+    frameId?: number;
+    constructor(session: QuickJSDebugSession, scopeInfo: ScopeInfo, frameId?: number) {
         super(session, scopeInfo.reference);
+        this.frameId = frameId;
         this.name = scopeInfo.name;
         this.type = 'object';
         this.primitive = false;
@@ -194,6 +736,11 @@ export class QuickJSScope extends QuickJSHandle<Record<string, unknown>> {
         this.expensive = scopeInfo.expensive;
     }
 
+    protected childSource(name: string): HandleSource | undefined {
+        if (this.frameId === undefined || !identifierRegex.test(name)) return undefined;
+        return { frameId: this.frameId, expression: name };
+    }
+
     toString() {
         return `[scope ${this.name}]`;
     }
@@ -271,95 +818,668 @@ export interface ContextEvent {
 
 export type EvaluateContext = 'watch' | 'repl' | 'hover' | 'clipboard' | 'variables';
 
+/**
+ * Decides whether a stop should be reported. Returning `false` resumes the debuggee without
+ * emitting `stopped`.
+ */
+export type StopFilter = (event: StoppedEvent) => boolean | Promise<boolean>;
+
+export type DebuggeeState = 'running' | 'paused';
+
+/**
+ * A script context of the debuggee, known from `ThreadEvent`s and stops.
+ */
+export interface ThreadInfo {
+    id: number;
+    /**
+     * The stop of this thread while the debuggee is paused in it.
+     */
+    stoppedEvent: StoppedEvent | null;
+}
+
+/**
+ * Thrown when a handle or stack frame from an earlier stop is used after the debuggee ran again.
+ */
+export class StaleHandleError extends Error {
+    constructor() {
+        super('The handle belongs to an earlier stop of the debuggee, fetch it again');
+    }
+}
+
+/**
+ * What was thrown at an `exception` stop. Fields other than the frame are missing when the debuggee does not expose
+ * the thrown value, which QuickJS does not.
+ */
+export interface ExceptionDetails {
+    event: StoppedEvent;
+    /**
+     * Frame where the exception was thrown.
+     */
+    frame?: QuickJSStackFrame;
+    value?: QuickJSHandle;
+    /**
+     * Constructor name of a thrown object, like `TypeError`.
+     */
+    constructorName?: string;
+    message?: string;
+    stack?: string;
+}
+
+/**
+ * Finds the thrown value in the scopes of the frame, for debuggees that expose it as the variable of an `Exception`
+ * scope, or as an `Exception` variable of the innermost scope like V8 does. QuickJS does neither.
+ */
+async function findThrownValue(frame: QuickJSStackFrame) {
+    const scopes = await frame.getScopes();
+    const exceptionScope = scopes.find((e) => /^exception$/i.test(e.name));
+    if (exceptionScope) {
+        return (await exceptionScope.getProperties())[0];
+    }
+    const [innermost] = scopes;
+    if (!innermost || innermost.expensive) return undefined;
+    return (await innermost.getProperties()).find((e) => e.name === 'Exception');
+}
+
+async function getConstructorName(value: QuickJSHandle) {
+    const proto = (await value.getProperties()).find((e) => e.name === '__proto__');
+    if (!proto || proto.primitive) return undefined;
+    const protoConstructor = (await proto.getProperties()).find((e) => e.name === 'constructor');
+    return getFunctionName(protoConstructor?.valueAsString) || undefined;
+}
+
+async function describeThrownValue(details: ExceptionDetails, value: QuickJSHandle) {
+    if (value.primitive) {
+        details.message = String(value.primitiveValue);
+        return;
+    }
+    const inspected = await value.inspect({ maxDepth: 1, evaluateHelpers: false });
+    if (inspected instanceof QuickJSPlaceholder) {
+        details.constructorName = 'Function';
+        details.message = String(inspected);
+        return;
+    }
+    details.constructorName = await getConstructorName(value);
+    if (inspected instanceof Error) {
+        details.constructorName ??= inspected.name;
+        details.message = inspected.message;
+        details.stack = inspected.stack;
+        return;
+    }
+    details.message = String(value);
+    if (typeof inspected === 'object' && inspected !== null) {
+        const { message, stack } = inspected as Record<string, unknown>;
+        details.constructorName ??= (Object.getPrototypeOf(inspected) as object | null)?.constructor?.name;
+        if (typeof message === 'string') {
+            details.message = message;
+        }
+        if (typeof stack === 'string') {
+            details.stack = stack;
+        }
+    }
+}
+
 export interface QuickJSDebugSessionEvents {
     stopped: [event: StoppedEvent];
+    /**
+     * Emitted before `stopped` on `exception` stops.
+     */
+    exception: [details: ExceptionDetails];
+    /**
+     * Emitted before `stopped` for each unhandled rejection recorded since the previous stop,
+     * while async tracking is on.
+     */
+    rejection: [event: RejectionEvent];
+    /**
+     * Emitted when the debuggee runs again after a reported stop.
+     */
+    continued: [];
     context: [event: ContextEvent];
     end: [];
+    /**
+     * Emitted when handling a stop fails.
+     */
+    error: [error: unknown];
 }
 
 export class QuickJSDebugSession extends EventEmitter<QuickJSDebugSessionEvents> {
     connection: DebugConnection;
+    stopFilters: StopFilter[] = [];
+    state: DebuggeeState = 'running';
+    /**
+     * The latest stop, kept while the debuggee is paused.
+     */
+    stoppedEvent: StoppedEvent | null = null;
+    /**
+     * Increases whenever the debuggee stops, runs or disconnects. Handles and frames from another generation are stale.
+     */
+    generation = 0;
+    threads = new Map<number, ThreadInfo>();
+    /**
+     * Thread chosen by {@link selectThread}, reset on each stop.
+     */
+    selectedThread: number | null = null;
+    /**
+     * Details of the current `exception` stop, read by {@link getExceptionDetails}.
+     */
+    exceptionDetails: ExceptionDetails | null = null;
+    /**
+     * Options of the async instrumentation, `null` while it is off. See {@link setAsyncTracking}.
+     */
+    asyncTracking: AsyncTrackingOptions | null = null;
+    /**
+     * Scheduler functions patched by the async instrumentation unless the options list their own.
+     */
+    schedulerHooks: SchedulerHook[] = defaultSchedulerHooks;
+    /**
+     * Async stack of the current stop, read by {@link getAsyncStack}.
+     */
+    asyncStack: AsyncStackSegment[] = [];
+    /**
+     * Arguments the async hooks were installed with, as JSON, or `null` if they are not installed.
+     */
+    private installedAsyncHooks: string | null = null;
+    private stopReported = false;
+    private stackCache = new Map<string, Promise<QuickJSStackFrame[]>>();
+    private scopesCache = new Map<string, Promise<QuickJSScope[]>>();
+    private variablesCache = new Map<string, Promise<QuickJSVariable[]>>();
+    /**
+     * Maximum number of `variables` requests in flight, counting the `evaluate` requests of inspect helpers.
+     * Further requests wait in a queue.
+     */
+    maxPendingVariablesRequests = 8;
+    /**
+     * Whether the debuggee answers `setVariable` requests. Neither QuickJS nor Minecraft does, so values are
+     * assigned with `evaluate` by default.
+     */
+    supportsSetVariable = false;
+    private pendingVariablesRequests = 0;
+    private pinCount = 0;
+    private variablesRequestQueue: (() => void)[] = [];
     constructor(connection: DebugConnection) {
         super();
         this.connection = connection;
         connection.on('event:StoppedEvent', (ev) => {
-            this.emit('stopped', ev as StoppedEvent);
+            this.handleStopped(ev as StoppedEvent).catch((err) => this.emit('error', err));
         });
         connection.on('event:ThreadEvent', (ev) => {
-            this.emit('context', ev as ContextEvent);
+            const contextEvent = ev as ContextEvent;
+            if (contextEvent.reason === 'new') {
+                this.registerThread(contextEvent.thread);
+            } else if (contextEvent.reason === 'exited') {
+                this.threads.delete(contextEvent.thread);
+                if (this.selectedThread === contextEvent.thread) {
+                    this.selectedThread = null;
+                }
+            }
+            this.emit('context', contextEvent);
         });
         connection.on('event:terminated', () => {
             this.emit('end');
         });
+        connection.on('end', () => {
+            this.setRunning();
+        });
+        if (connection instanceof ReconnectingDebugConnection) {
+            // The next debuggee knows nothing of the handles of this one
+            connection.on('disconnect', () => {
+                this.setRunning();
+            });
+        }
+    }
+
+    get paused() {
+        return this.state === 'paused';
+    }
+
+    /**
+     * Thread of the latest stop.
+     */
+    get thread() {
+        return this.stoppedEvent?.thread;
+    }
+
+    /**
+     * Thread that stepping and stack requests go to by default: the selected one, or the one that stopped.
+     */
+    get currentThread() {
+        return this.selectedThread ?? this.thread;
+    }
+
+    getThreads() {
+        return [...this.threads.values()].sort((a, b) => a.id - b.id);
+    }
+
+    /**
+     * Selects the thread that requests go to by default. Only the stopped thread can be selected, see
+     * {@link threadArgs}.
+     */
+    selectThread(threadId: number | null) {
+        if (threadId !== null && !this.threads.has(threadId)) {
+            throw new Error(`Unknown thread: ${threadId}`);
+        }
+        if (threadId !== null && threadId !== this.thread) {
+            throw new Error(`Thread ${threadId} is not stopped`);
+        }
+        this.selectedThread = threadId;
+    }
+
+    private registerThread(threadId: number) {
+        let thread = this.threads.get(threadId);
+        if (!thread) {
+            thread = { id: threadId, stoppedEvent: null };
+            this.threads.set(threadId, thread);
+        }
+        return thread;
+    }
+
+    /**
+     * Thread arguments for a request. The protocol has no thread routing of its own: debuggees answer for the
+     * stopped thread whatever the arguments, so other threads are refused while paused instead of getting its stack.
+     */
+    private threadArgs(threadId?: number) {
+        const id = threadId ?? this.currentThread;
+        if (id !== undefined && this.thread !== undefined && id !== this.thread) {
+            throw new Error(`Thread ${id} is not stopped, only thread ${this.thread} is`);
+        }
+        return id !== undefined ? { threadId: id } : undefined;
+    }
+
+    /**
+     * Drops cached stack frames, scopes and variables without making handles stale,
+     * e.g. after an evaluation that may have changed the debuggee.
+     */
+    clearCaches() {
+        this.stackCache.clear();
+        this.scopesCache.clear();
+        this.variablesCache.clear();
+    }
+
+    private setRunning() {
+        const reported = this.stopReported;
+        // Also bumped while running, since a debuggee that was paused before the session attached runs now too
+        this.generation++;
+        this.state = 'running';
+        this.stoppedEvent = null;
+        this.exceptionDetails = null;
+        this.asyncStack = [];
+        this.stopReported = false;
+        for (const thread of this.threads.values()) {
+            thread.stoppedEvent = null;
+        }
+        this.clearCaches();
+        if (reported) {
+            this.emit('continued');
+        }
+    }
+
+    /**
+     * Returns a new key for a value pinned in the debuggee.
+     */
+    nextPinKey() {
+        return `h${this.pinCount++}`;
+    }
+
+    private cached<T>(cache: Map<string | number, Promise<T>>, key: string | number, fetch: () => Promise<T>) {
+        let promise = cache.get(key);
+        if (!promise) {
+            promise = fetch();
+            cache.set(key, promise);
+            promise.catch(() => {
+                if (cache.get(key) === promise) {
+                    cache.delete(key);
+                }
+            });
+        }
+        return promise;
+    }
+
+    addStopFilter(filter: StopFilter) {
+        this.stopFilters.push(filter);
+    }
+
+    removeStopFilter(filter: StopFilter) {
+        const index = this.stopFilters.indexOf(filter);
+        if (index >= 0) {
+            this.stopFilters.splice(index, 1);
+        }
+    }
+
+    private async handleStopped(ev: StoppedEvent) {
+        this.generation++;
+        this.state = 'paused';
+        this.stoppedEvent = ev;
+        this.exceptionDetails = null;
+        this.asyncStack = [];
+        this.stopReported = false;
+        this.selectedThread = null;
+        this.registerThread(ev.thread).stoppedEvent = ev;
+        this.clearCaches();
+        const { generation } = this;
+        for (const filter of this.stopFilters) {
+            let shouldStop: boolean;
+            try {
+                shouldStop = await filter(ev);
+            } catch {
+                // A failing filter should never hide a stop from the user
+                shouldStop = true;
+            }
+            if (generation !== this.generation) return;
+            if (!shouldStop) {
+                this.continue().catch(() => {
+                    this.reportStop(ev);
+                });
+                return;
+            }
+        }
+        if (generation !== this.generation) return;
+        if (ev.reason === 'exception') {
+            try {
+                await this.getExceptionDetails();
+            } catch {
+                // The stop is reported without details
+            }
+            if (generation !== this.generation) return;
+        }
+        if (this.asyncTracking || this.installedAsyncHooks !== null) {
+            try {
+                await this.syncAsyncHooks(ev.thread);
+            } catch {
+                // Instrumentation should never hide a stop either
+            }
+            if (generation !== this.generation) return;
+        }
+        this.reportStop(ev);
     }
 
-    async continue() {
-        return this.connection.sendRequest<DebugProtocol.ContinueResponse['body']>('continue');
+    private reportStop(ev: StoppedEvent) {
+        this.stopReported = true;
+        if (ev.reason === 'exception' && this.exceptionDetails?.event === ev) {
+            this.emit('exception', this.exceptionDetails);
+        }
+        this.emit('stopped', ev);
+    }
+
+    /**
+     * Turns the async instrumentation on, or off with `null`. The hooks are installed in the debuggee at the next
+     * stop, or now if it is paused; only callbacks scheduled after that have async stacks.
+     * See {@link installAsyncHooks} for what can be tracked.
+     */
+    async setAsyncTracking(options: AsyncTrackingOptions | null, requestOptions?: RequestOptions) {
+        this.asyncTracking = options;
+        if (this.paused && (options || this.installedAsyncHooks !== null)) {
+            await this.syncAsyncHooks(this.thread, requestOptions);
+        }
     }
 
-    async pause() {
-        return this.connection.sendRequest('pause');
+    /**
+     * Returns where the callback running at the current stop was scheduled, innermost first.
+     * Empty if async tracking is off or the code was not called from a tracked callback.
+     */
+    getAsyncStack() {
+        return [...this.asyncStack];
     }
 
-    async stepNext() {
-        return this.connection.sendRequest('next');
+    /**
+     * Installs or removes the async hooks to match {@link asyncTracking}, then reads the async stack
+     * and reports pending rejections. The hooks only read their options when installed, so they are
+     * installed again when the options change.
+     */
+    private async syncAsyncHooks(threadId?: number, requestOptions?: RequestOptions) {
+        const { generation } = this;
+        const frame = await this.getTopStack(requestOptions, threadId);
+        if (!frame) return;
+        const registryName = asyncRegistryName;
+        const options = this.asyncTracking;
+        if (!options) {
+            await frame.evaluateGlobal(uninstallAsyncHooks, { registryName }, requestOptions);
+            this.installedAsyncHooks = null;
+            return;
+        }
+        const args = {
+            registryName,
+            maxDepth: options.maxDepth ?? 8,
+            maxRejections: options.maxRejections ?? 32,
+            pause: options.pauseOnRejection ?? false,
+            schedulers: options.schedulers ?? this.schedulerHooks,
+        };
+        const installed = JSON.stringify(args);
+        const state = await frame.evaluateGlobal(readAsyncState, { registryName }, requestOptions);
+        if (!state.installed || this.installedAsyncHooks !== installed) {
+            if (state.installed) {
+                await frame.evaluateGlobal(uninstallAsyncHooks, { registryName }, requestOptions);
+            }
+            await frame.evaluateGlobal(installAsyncHooks, args, requestOptions);
+            this.installedAsyncHooks = installed;
+        }
+        if (generation !== this.generation) return;
+        this.asyncStack = toAsyncStack(state.chain);
+        for (const rejection of state.rejections) {
+            this.emit('rejection', { reason: rejection.reason, asyncStack: toAsyncStack(rejection.chain) });
+        }
     }
 
-    async stepIn() {
-        return this.connection.sendRequest('stepIn');
+    /**
+     * Reads what was thrown at the current `exception` stop, or returns `null` if the debuggee is not
+     * paused on an exception. Details are fetched once per stop.
+     */
+    async getExceptionDetails(requestOptions?: RequestOptions) {
+        const ev = this.stoppedEvent;
+        if (!ev || ev.reason !== 'exception') return null;
+        if (this.exceptionDetails?.event === ev) return this.exceptionDetails;
+        const details: ExceptionDetails = { event: ev };
+        try {
+            details.frame = await this.getTopStack(requestOptions, ev.thread);
+            details.value = details.frame ? await findThrownValue(details.frame) : undefined;
+            if (details.value) {
+                await describeThrownValue(details, details.value);
+            }
+        } catch (err) {
+            if (requestOptions?.signal?.aborted || err instanceof StaleHandleError) {
+                throw err;
+            }
+        }
+        if (this.stoppedEvent === ev) {
+            this.exceptionDetails = details;
+        }
+        return details;
+    }
+
+    /**
+     * Sends a request that lets the debuggee run. The session stays paused if the request fails, and keeps a stop
+     * that was reported before the response.
+     */
+    private async sendRunRequest<R = void>(command: string, threadId?: number) {
+        const args = this.threadArgs(threadId);
+        const { generation } = this;
+        const res = await this.connection.sendRequest<R>(command, args);
+        if (this.generation === generation) {
+            this.setRunning();
+        }
+        return res;
     }
 
-    async stepOut() {
-        return this.connection.sendRequest('stepOut');
+    async continue(threadId?: number) {
+        return this.sendRunRequest<DebugProtocol.ContinueResponse['body']>('continue', threadId);
     }
 
-    async evaluate<R = unknown>(frameId: number, expression: string, context?: EvaluateContext) {
-        const res = await this.connection.sendRequest<DebugProtocol.EvaluateResponse['body']>('evaluate', {
-            frameId,
-            context: context ?? 'watch',
-            expression,
-        } as DebugProtocol.EvaluateArguments);
-        return new QuickJSVariable<R>(this, { ...res, name: 'result', value: res.result });
+    async pause(threadId?: number) {
+        return this.connection.sendRequest('pause', this.threadArgs(threadId));
     }
 
-    async traceStack() {
-        const res = await this.connection.sendRequest<StackFrameInfo[]>('stackTrace');
-        return res.map((e) => new QuickJSStackFrame(this, e));
+    async stepNext(threadId?: number) {
+        return this.sendRunRequest('next', threadId);
     }
 
-    async getTopStack() {
-        return (await this.traceStack())[0];
+    async stepIn(threadId?: number) {
+        return this.sendRunRequest('stepIn', threadId);
     }
 
-    async getScopes(frameId: number) {
-        const res = await this.connection.sendRequest<ScopeInfo[]>('scopes', {
-            frameId,
-        } as DebugProtocol.ScopesArguments);
-        return res.map((e) => new QuickJSScope(this, e));
+    async stepOut(threadId?: number) {
+        return this.sendRunRequest('stepOut', threadId);
     }
 
+    async evaluate<R = unknown>(
+        frameId: number,
+        expression: string,
+        context?: EvaluateContext,
+        requestOptions?: RequestOptions,
+    ) {
+        const res = await this.connection.sendRequest<DebugProtocol.EvaluateResponse['body']>(
+            'evaluate',
+            {
+                frameId,
+                context: context ?? 'watch',
+                expression,
+            } as DebugProtocol.EvaluateArguments,
+            requestOptions,
+        );
+        const result = new QuickJSVariable<R>(this, { ...res, name: 'result', value: res.result });
+        if (simplePathRegex.test(expression)) {
+            result.source = { frameId, expression };
+        }
+        return result;
+    }
+
+    /**
+     * Returns the stack frames of the current stop. Frames are cached until the debuggee runs again.
+     */
+    async traceStack(requestOptions?: RequestOptions, threadId?: number) {
+        const args = this.threadArgs(threadId);
+        const frames = await this.cached(this.stackCache, String(args?.threadId), async () => {
+            const res = await this.connection.sendRequest<StackFrameInfo[]>('stackTrace', args, requestOptions);
+            return res.map((e) => {
+                const frame = new QuickJSStackFrame(this, e);
+                frame.threadId = args?.threadId;
+                return frame;
+            });
+        });
+        return [...frames];
+    }
+
+    async getTopStack(requestOptions?: RequestOptions, threadId?: number) {
+        return (await this.traceStack(requestOptions, threadId))[0];
+    }
+
+    /**
+     * Returns the scopes of a frame. Frame ids are only unique within a thread, so scopes are cached per thread.
+     */
+    async getScopes(frameId: number, requestOptions?: RequestOptions, threadId?: number) {
+        const args = this.threadArgs(threadId);
+        const scopes = await this.cached(this.scopesCache, `${args?.threadId}:${frameId}`, async () => {
+            const res = await this.connection.sendRequest<ScopeInfo[]>(
+                'scopes',
+                {
+                    frameId,
+                } as DebugProtocol.ScopesArguments,
+                requestOptions,
+            );
+            return res.map((e) => new QuickJSScope(this, e, frameId));
+        });
+        return [...scopes];
+    }
+
+    private async acquireVariablesSlot() {
+        while (this.pendingVariablesRequests >= this.maxPendingVariablesRequests) {
+            const { promise, resolve } = Promise.withResolvers<void>();
+            this.variablesRequestQueue.push(resolve);
+            await promise;
+        }
+        this.pendingVariablesRequests++;
+    }
+
+    private releaseVariablesSlot() {
+        this.pendingVariablesRequests--;
+        this.variablesRequestQueue.shift()?.();
+    }
+
+    /**
+     * Returns a page of properties. Pages are cached until the debuggee runs again.
+     */
     async inspectVariable<T = unknown>(
         reference: number,
         options?: Omit<DebugProtocol.VariablesArguments, 'variablesReference'>,
+        requestOptions?: RequestOptions,
     ) {
-        const res = await this.connection.sendRequest<VariableInfo[]>('variables', {
-            variablesReference: reference,
-            ...options,
-        } as DebugProtocol.VariablesArguments);
-        return res.map((e) => new QuickJSVariable<T>(this, e));
+        const key = JSON.stringify([reference, options?.filter, options?.start, options?.count]);
+        const variables = await this.cached(this.variablesCache, key, async () => {
+            await this.acquireVariablesSlot();
+            try {
+                const res = await this.connection.sendRequest<VariableInfo[]>(
+                    'variables',
+                    {
+                        variablesReference: reference,
+                        ...options,
+                    } as DebugProtocol.VariablesArguments,
+                    requestOptions,
+                );
+                return res.map((e) => new QuickJSVariable(this, e));
+            } finally {
+                this.releaseVariablesSlot();
+            }
+        });
+        return [...variables] as QuickJSVariable<T>[];
+    }
+
+    /**
+     * Evaluates a helper expression of an inspection. Helpers share the queue of `variables` requests.
+     */
+    async evaluateInspectHelper(frameId: number, expression: string, requestOptions?: RequestOptions) {
+        await this.acquireVariablesSlot();
+        try {
+            return await this.evaluate(frameId, expression, undefined, requestOptions);
+        } finally {
+            this.releaseVariablesSlot();
+        }
+    }
+
+    /**
+     * Sets a property of a reference with a `setVariable` request. `value` is the source of an expression.
+     */
+    async setVariable(reference: number, name: string, value: string, requestOptions?: RequestOptions) {
+        const res = await this.connection.sendRequest<DebugProtocol.SetVariableResponse['body']>(
+            'setVariable',
+            {
+                variablesReference: reference,
+                name,
+                value,
+            } as DebugProtocol.SetVariableArguments,
+            requestOptions,
+        );
+        this.clearCaches();
+        return new QuickJSVariable(this, {
+            name,
+            value: res.value,
+            type: res.type ?? '',
+            variablesReference: res.variablesReference ?? 0,
+            indexedVariables: res.indexedVariables,
+        });
+    }
+
+    /**
+     * Assigns `value` to `expression` in a frame with `evaluate` and returns the new value of `expression`.
+     * Both are the source of expressions.
+     */
+    async setExpression(frameId: number, expression: string, value: string, requestOptions?: RequestOptions) {
+        try {
+            return await this.evaluate(frameId, `(${expression} = ${value}, ${expression})`, 'repl', requestOptions);
+        } finally {
+            this.clearCaches();
+        }
     }
 
     resume() {
+        this.setRunning();
         this.connection.sendEnvelope('resume');
     }
 
-    setBreakpoints(fileName: string, breakpoints: BreakpointInfo[]) {
+    setBreakpoints(fileName: string, breakpoints: BreakpointInfo[]): BreakpointStatus[] | Promise<BreakpointStatus[]> {
         this.connection.sendEnvelope('breakpoints', {
             breakpoints: {
                 path: fileName,
                 breakpoints: breakpoints.length ? breakpoints : undefined,
             },
         });
+        return breakpoints.map(() => ({ verified: true }));
     }
 
     async setBreakpointLines(fileName: string, breakpointsLines: number[]) {
@@ -372,6 +1492,10 @@ export class QuickJSDebugSession extends EventEmitter<QuickJSDebugSessionEvents>
         return status.breakpoints;
     }
 
+    /**
+     * Stops on every thrown value. QuickJS neither tells caught exceptions from uncaught ones nor exposes the thrown
+     * value, so exceptions cannot be filtered by kind or type.
+     */
     setStopOnException(enabled: boolean) {
         this.connection.sendEnvelope('stopOnException', {
             stopOnException: enabled,
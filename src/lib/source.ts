@@ -0,0 +1,74 @@
+import { readFile } from 'node:fs/promises';
+import { isAbsolute, resolve } from 'node:path';
+
+export interface SourceResolverOptions {
+    /**
+     * Local directory the debuggee file names are relative to, e.g. the `scripts` folder of a behavior pack.
+     */
+    root: string;
+}
+
+export interface SourceLine {
+    line: number;
+    text: string;
+}
+
+const lineBreakRegex = /\r?\n/;
+
+/**
+ * Reads the local copies of the scripts the debuggee runs. Relative file names are resolved against the root,
+ * absolute ones, like original sources from source maps, are read as they are.
+ * Files are cached until {@link reset} is called.
+ */
+export class SourceResolver {
+    root: string;
+    private files = new Map<string, Promise<string[] | null>>();
+    constructor(options: SourceResolverOptions) {
+        this.root = resolve(options.root);
+    }
+
+    reset() {
+        this.files.clear();
+    }
+
+    toLocalPath(fileName: string) {
+        return isAbsolute(fileName) ? fileName : resolve(this.root, fileName);
+    }
+
+    /**
+     * Returns the lines of a file, or `null` if it cannot be read.
+     */
+    async getLines(fileName: string) {
+        const path = this.toLocalPath(fileName);
+        let lines = this.files.get(path);
+        if (!lines) {
+            lines = readFile(path, 'utf-8').then(
+                (content) => {
+                    const split = content.split(lineBreakRegex);
+                    // A trailing line break does not start another line
+                    if (split.length > 1 && split[split.length - 1] === '') split.pop();
+                    return split;
+                },
+                () => null,
+            );
+            this.files.set(path, lines);
+        }
+        return lines;
+    }
+
+    /**
+     * Returns up to `context` lines before and after `line`, or `null` if the file cannot be read.
+     * The range is clamped to the file.
+     */
+    async getRange(fileName: string, line: number, context: number): Promise<SourceLine[] | null> {
+        const lines = await this.getLines(fileName);
+        if (!lines) return null;
+        const start = Math.max(1, line - context);
+        const end = Math.min(lines.length, line + context);
+        const range: SourceLine[] = [];
+        for (let i = start; i <= end; i++) {
+            range.push({ line: i, text: lines[i - 1] });
+        }
+        return range;
+    }
+}
@@ -0,0 +1,355 @@
+import { Buffer } from 'node:buffer';
+import { access, readdir, readFile } from 'node:fs/promises';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import type { QuickJSStackFrame } from './session.js';
+
+export interface RawSourceMap {
+    version: number;
+    file?: string;
+    sourceRoot?: string;
+    sources: (string | null)[];
+    sourcesContent?: (string | null)[];
+    names?: string[];
+    mappings: string;
+}
+
+/**
+ * A position in a file. Lines and columns are 1-based.
+ */
+export interface SourceLocation {
+    fileName: string;
+    line: number;
+    column?: number;
+    /**
+     * Original name of the function or identifier at this location, if known.
+     */
+    name?: string;
+}
+
+/**
+ * `[generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex]`, all 0-based.
+ */
+type MappingSegment = [number, number, number, number, number?];
+
+const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const base64Values = new Map([...base64Chars].map((c, i) => [c, i]));
+
+function decodeVLQ(str: string) {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+    for (const c of str) {
+        const digit = base64Values.get(c);
+        if (digit === undefined) {
+            throw new Error(`Invalid base64 character in source map: ${c}`);
+        }
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+        } else {
+            values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+            value = 0;
+            shift = 0;
+        }
+    }
+    return values;
+}
+
+function decodeMappings(mappings: string) {
+    const lines: MappingSegment[][] = [];
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let nameIndex = 0;
+    for (const lineMappings of mappings.split(';')) {
+        const segments: MappingSegment[] = [];
+        let generatedColumn = 0;
+        for (const segmentMappings of lineMappings.split(',')) {
+            if (!segmentMappings) continue;
+            const values = decodeVLQ(segmentMappings);
+            generatedColumn += values[0];
+            if (values.length < 4) continue;
+            sourceIndex += values[1];
+            originalLine += values[2];
+            originalColumn += values[3];
+            const segment: MappingSegment = [generatedColumn, sourceIndex, originalLine, originalColumn];
+            if (values.length >= 5) {
+                nameIndex += values[4];
+                segment[4] = nameIndex;
+            }
+            segments.push(segment);
+        }
+        segments.sort((a, b) => a[0] - b[0]);
+        lines.push(segments);
+    }
+    return lines;
+}
+
+const identifierRegex = /^[\w$]+/;
+
+/**
+ * A decoded source map. Sources are resolved to absolute paths.
+ */
+export class SourceMap {
+    raw: RawSourceMap;
+    sources: string[];
+    generatedCode?: string;
+    private lines: MappingSegment[][];
+    private generatedLinesBySource?: Map<number, number>[];
+    private originalNames?: Map<string, string>;
+    /**
+     * @param baseDir Directory that relative sources are resolved against, usually the one containing the map.
+     * @param generatedCode Content of the generated file, used to map names of stack frames.
+     */
+    constructor(raw: RawSourceMap, baseDir: string, generatedCode?: string) {
+        if (raw.version !== 3 || typeof raw.mappings !== 'string') {
+            throw new Error('Only version 3 source maps without sections are supported');
+        }
+        this.raw = raw;
+        const sourceRoot = raw.sourceRoot ?? '';
+        this.sources = raw.sources.map((e) => resolve(baseDir, sourceRoot, e ?? ''));
+        this.generatedCode = generatedCode;
+        this.lines = decodeMappings(raw.mappings);
+    }
+
+    originalPositionFor(line: number, column?: number): SourceLocation | null {
+        const segments = this.lines[line - 1];
+        if (!segments?.length) return null;
+        let found = segments[0];
+        if (column !== undefined) {
+            for (const segment of segments) {
+                if (segment[0] > column - 1) break;
+                found = segment;
+            }
+        }
+        const [, sourceIndex, originalLine, originalColumn, nameIndex] = found;
+        return {
+            fileName: this.sources[sourceIndex],
+            line: originalLine + 1,
+            column: originalColumn + 1,
+            name: nameIndex !== undefined ? this.raw.names?.[nameIndex] : undefined,
+        };
+    }
+
+    /**
+     * Finds the first generated line of an original line. Lines without code slide to the next mapped line.
+     */
+    generatedPositionFor(fileName: string, line: number): SourceLocation | null {
+        const sourceIndex = this.sources.indexOf(resolve(fileName));
+        if (sourceIndex < 0) return null;
+        const generatedLines = this.getGeneratedLines(sourceIndex);
+        let nearest: number | undefined;
+        for (const originalLine of generatedLines.keys()) {
+            if (originalLine >= line - 1 && (nearest === undefined || originalLine < nearest)) {
+                nearest = originalLine;
+            }
+        }
+        if (nearest === undefined) return null;
+        const generatedLine = generatedLines.get(nearest) as number;
+        const segment = this.lines[generatedLine].find((e) => e[1] === sourceIndex && e[2] === nearest);
+        return {
+            fileName: this.raw.file ?? '',
+            line: generatedLine + 1,
+            column: (segment?.[0] ?? 0) + 1,
+        };
+    }
+
+    private getGeneratedLines(sourceIndex: number) {
+        if (!this.generatedLinesBySource) {
+            const bySource: Map<number, number>[] = this.sources.map(() => new Map());
+            this.lines.forEach((segments, generatedLine) => {
+                for (const [, index, originalLine] of segments) {
+                    const generatedLines = bySource[index];
+                    if (generatedLines && !generatedLines.has(originalLine)) {
+                        generatedLines.set(originalLine, generatedLine);
+                    }
+                }
+            });
+            this.generatedLinesBySource = bySource;
+        }
+        return this.generatedLinesBySource[sourceIndex];
+    }
+
+    /**
+     * Maps an identifier in the generated code back to its original name.
+     */
+    originalNameFor(generatedName: string) {
+        if (!this.originalNames) {
+            const originalNames = new Map<string, string>();
+            const codeLines = this.generatedCode?.split(/\r?\n/) ?? [];
+            this.lines.forEach((segments, generatedLine) => {
+                for (const [generatedColumn, , , , nameIndex] of segments) {
+                    if (nameIndex === undefined) continue;
+                    const name = this.raw.names?.[nameIndex];
+                    const match = identifierRegex.exec(codeLines[generatedLine]?.slice(generatedColumn) ?? '');
+                    if (name && match && !originalNames.has(match[0])) {
+                        originalNames.set(match[0], name);
+                    }
+                }
+            });
+            this.originalNames = originalNames;
+        }
+        return this.originalNames.get(generatedName) ?? generatedName;
+    }
+}
+
+export interface SourceMapOptions {
+    /**
+     * Directory containing the generated scripts, as the debuggee sees them.
+     */
+    outDir: string;
+}
+
+const sourceMappingURLRegex = /\/\/[#@]\s*sourceMappingURL=(\S+)/g;
+const dataURLRegex = /^data:application\/json;(?:charset=[\w-]+;)?base64,(.*)$/;
+
+async function exists(path: string) {
+    try {
+        await access(path);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function listScripts(dir: string): Promise<string[]> {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const files = await Promise.all(
+        entries.map(async (entry) => {
+            const path = join(dir, entry.name);
+            if (entry.isDirectory()) {
+                return listScripts(path);
+            }
+            return /\.[cm]?js$/.test(entry.name) ? [path] : [];
+        }),
+    );
+    return files.flat();
+}
+
+/**
+ * Translates between generated scripts in an output directory and their original sources.
+ *
+ * Generated file names are relative to the output directory, as reported by the debuggee.
+ * Original file names are absolute paths; relative ones are resolved against the working directory.
+ * Both inline (`data:` URL) and external maps are supported. Maps are cached until {@link reset} is called.
+ */
+export class SourceMapResolver {
+    outDir: string;
+    private maps = new Map<string, Promise<SourceMap | null>>();
+    private sourceIndex?: Promise<Map<string, string[]>>;
+    constructor(options: SourceMapOptions) {
+        this.outDir = resolve(options.outDir);
+    }
+
+    reset() {
+        this.maps.clear();
+        this.sourceIndex = undefined;
+    }
+
+    /**
+     * Returns the source map of a generated file, or `null` if it has none.
+     */
+    async getSourceMap(fileName: string) {
+        let sourceMap = this.maps.get(fileName);
+        if (!sourceMap) {
+            const loading = this.loadSourceMap(fileName);
+            // Failed loads are retried, e.g. after the map is rebuilt
+            loading.catch(() => {
+                if (this.maps.get(fileName) === loading) this.maps.delete(fileName);
+            });
+            sourceMap = loading;
+            this.maps.set(fileName, sourceMap);
+        }
+        return sourceMap;
+    }
+
+    private async loadSourceMap(fileName: string) {
+        const scriptPath = resolve(this.outDir, fileName);
+        let code: string;
+        try {
+            code = await readFile(scriptPath, 'utf-8');
+        } catch {
+            return null;
+        }
+        const url = [...code.matchAll(sourceMappingURLRegex)].at(-1)?.[1];
+        let mapPath = `${scriptPath}.map`;
+        if (url) {
+            const inline = dataURLRegex.exec(url);
+            if (inline) {
+                const raw = JSON.parse(Buffer.from(inline[1], 'base64').toString('utf-8')) as RawSourceMap;
+                return new SourceMap({ ...raw, file: fileName }, dirname(scriptPath), code);
+            }
+            mapPath = resolve(dirname(scriptPath), decodeURI(url));
+        } else if (!(await exists(mapPath))) {
+            return null;
+        }
+        const raw = JSON.parse(await readFile(mapPath, 'utf-8')) as RawSourceMap;
+        return new SourceMap({ ...raw, file: fileName }, dirname(mapPath), code);
+    }
+
+    private async getSourceIndex() {
+        if (!this.sourceIndex) {
+            this.sourceIndex = this.buildSourceIndex();
+        }
+        return this.sourceIndex;
+    }
+
+    private async buildSourceIndex() {
+        const index = new Map<string, string[]>();
+        const scripts = await listScripts(this.outDir).catch(() => []);
+        for (const scriptPath of scripts) {
+            const fileName = relative(this.outDir, scriptPath).split(sep).join('/');
+            const sourceMap = await this.getSourceMap(fileName).catch(() => null);
+            for (const source of sourceMap?.sources ?? []) {
+                const generated = index.get(source);
+                if (generated) {
+                    generated.push(fileName);
+                } else {
+                    index.set(source, [fileName]);
+                }
+            }
+        }
+        return index;
+    }
+
+    /**
+     * Maps a location in a generated file to the original source, or `null` if it is not mapped.
+     */
+    async toOriginal(location: SourceLocation) {
+        const sourceMap = await this.getSourceMap(location.fileName);
+        return sourceMap?.originalPositionFor(location.line, location.column) ?? null;
+    }
+
+    /**
+     * Maps a location in an original source to every generated file that contains it.
+     * Returns an empty array if the file is not an original source.
+     */
+    async toGenerated(location: SourceLocation) {
+        const index = await this.getSourceIndex();
+        const locations: SourceLocation[] = [];
+        for (const fileName of index.get(resolve(location.fileName)) ?? []) {
+            const sourceMap = await this.getSourceMap(fileName);
+            const generated = sourceMap?.generatedPositionFor(location.fileName, location.line);
+            if (generated) {
+                locations.push(generated);
+            }
+        }
+        return locations;
+    }
+
+    /**
+     * Sets {@link QuickJSStackFrame.original} of each frame that has a source map.
+     */
+    async resolveStackFrames(frames: QuickJSStackFrame[]) {
+        await Promise.all(
+            frames.map(async (frame) => {
+                const sourceMap = await this.getSourceMap(frame.fileName).catch(() => null);
+                const original = sourceMap?.originalPositionFor(frame.lineNumber, frame.columnNumber);
+                if (sourceMap && original) {
+                    frame.original = { ...original, name: sourceMap.originalNameFor(frame.name) };
+                }
+            }),
+        );
+        return frames;
+    }
+}
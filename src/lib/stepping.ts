@@ -0,0 +1,233 @@
+import type { BreakpointManager } from './breakpoints.js';
+import { snapshotExpression } from './serialize.js';
+import type { QuickJSDebugSession, StoppedEvent } from './session.js';
+
+export type StepType = 'next' | 'in' | 'out';
+
+export interface SteppingOptions {
+    /**
+     * Stops waiting when aborted and rejects with the abort reason. The debuggee is left where it stops next.
+     */
+    signal?: AbortSignal;
+    /**
+     * Maximum number of steps before giving up. Defaults to 1000.
+     */
+    maxSteps?: number;
+    /**
+     * Kind of each step. Defaults to `next`.
+     */
+    step?: StepType;
+    threadId?: number;
+}
+
+/**
+ * Result of a compound step. `steps` is the number of steps taken, always 0 for {@link runTo}.
+ */
+export interface SteppingResult {
+    /**
+     * `done` if the target was reached, `interrupted` if the debuggee stopped for another reason such as
+     * a breakpoint or an exception, `limit` if `maxSteps` steps were taken first.
+     */
+    reason: 'done' | 'interrupted' | 'limit';
+    steps: number;
+    /**
+     * The latest stop, `null` if no step was taken.
+     */
+    event: StoppedEvent | null;
+}
+
+const defaultMaxSteps = 1000;
+const stepReasons: StoppedEvent['reason'][] = ['step', 'stepIn', 'stepOut'];
+
+/**
+ * Waits for the next reported stop of the session.
+ */
+function waitForStop(session: QuickJSDebugSession, signal?: AbortSignal) {
+    const { promise, resolve, reject } = Promise.withResolvers<StoppedEvent>();
+    const { connection } = session;
+    const onStopped = (ev: StoppedEvent) => {
+        dispose();
+        resolve(ev);
+    };
+    const onEnd = () => {
+        dispose();
+        reject(new Error('Debuggee disconnected'));
+    };
+    const onAbort = () => {
+        dispose();
+        reject(signal?.reason);
+    };
+    const dispose = () => {
+        session.off('stopped', onStopped);
+        session.off('end', onEnd);
+        connection.off('end', onEnd);
+        signal?.removeEventListener('abort', onAbort);
+    };
+    session.on('stopped', onStopped);
+    session.on('end', onEnd);
+    connection.on('end', onEnd);
+    signal?.addEventListener('abort', onAbort);
+    return { promise, dispose };
+}
+
+/**
+ * Resumes the debuggee with `run` and waits until it stops again.
+ */
+async function runAndWait(session: QuickJSDebugSession, run: () => Promise<unknown>, signal?: AbortSignal) {
+    signal?.throwIfAborted();
+    const { promise, dispose } = waitForStop(session, signal);
+    try {
+        await run();
+    } catch (err) {
+        dispose();
+        throw err;
+    }
+    return promise;
+}
+
+function requirePaused(session: QuickJSDebugSession) {
+    if (!session.paused) {
+        throw new Error('Debuggee is not paused');
+    }
+}
+
+async function stepOnce(session: QuickJSDebugSession, options?: SteppingOptions) {
+    const { step, threadId, signal } = options ?? {};
+    return runAndWait(
+        session,
+        () => {
+            switch (step) {
+                case 'in':
+                    return session.stepIn(threadId);
+                case 'out':
+                    return session.stepOut(threadId);
+                default:
+                    return session.stepNext(threadId);
+            }
+        },
+        signal,
+    );
+}
+
+/**
+ * Steps until `done` returns `true` after a step, the debuggee stops for another reason or the step cap is reached.
+ */
+async function stepWhile(
+    session: QuickJSDebugSession,
+    options: SteppingOptions | undefined,
+    done: (steps: number) => boolean | Promise<boolean>,
+): Promise<SteppingResult> {
+    requirePaused(session);
+    const { maxSteps = defaultMaxSteps, signal } = options ?? {};
+    let steps = 0;
+    let event: StoppedEvent | null = null;
+    while (steps < maxSteps) {
+        event = await stepOnce(session, options);
+        steps++;
+        if (!stepReasons.includes(event.reason)) {
+            return { reason: 'interrupted', steps, event };
+        }
+        if (await done(steps)) {
+            return { reason: 'done', steps, event };
+        }
+        signal?.throwIfAborted();
+    }
+    return { reason: 'limit', steps, event };
+}
+
+async function evaluateInTopFrame(session: QuickJSDebugSession, expression: string, options?: SteppingOptions) {
+    const frame = await session.getTopStack({ signal: options?.signal }, options?.threadId);
+    if (!frame) {
+        throw new Error('No stack frame');
+    }
+    return frame.evaluateExpression(expression, { signal: options?.signal });
+}
+
+/**
+ * Takes `count` steps, stopping early if the debuggee stops for another reason.
+ */
+export async function step(session: QuickJSDebugSession, count = 1, options?: SteppingOptions) {
+    const maxSteps = Math.min(count, options?.maxSteps ?? Infinity);
+    return stepWhile(session, { ...options, maxSteps }, (steps) => steps >= count);
+}
+
+/**
+ * Steps until `expression` is truthy in the top frame. Failed evaluations, e.g. in frames where a variable is
+ * not defined, count as falsy.
+ */
+export async function stepUntil(session: QuickJSDebugSession, expression: string, options?: SteppingOptions) {
+    return stepWhile(session, options, async () => {
+        try {
+            const result = await evaluateInTopFrame(session, expression, options);
+            return result.primitive ? Boolean(result.primitiveValue) : true;
+        } catch {
+            return false;
+        }
+    });
+}
+
+/**
+ * Returns the value of `expression` as a string, or `undefined` if it cannot be evaluated.
+ * Objects, including class instances, are compared by content. Functions and symbols never count as changed.
+ */
+async function snapshot(session: QuickJSDebugSession, expression: string, options?: SteppingOptions) {
+    try {
+        const result = await evaluateInTopFrame(session, snapshotExpression(expression), options);
+        return typeof result.primitiveValue === 'string' ? result.primitiveValue : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Steps until the value of `expression` changes, like a data breakpoint. Stops where the expression
+ * cannot be evaluated are skipped, so stepping into another function does not count as a change.
+ */
+export async function stepUntilChanged(session: QuickJSDebugSession, expression: string, options?: SteppingOptions) {
+    requirePaused(session);
+    let previous = await snapshot(session, expression, options);
+    return stepWhile(session, options, async () => {
+        const current = await snapshot(session, expression, options);
+        if (current === undefined) return false;
+        if (previous === undefined) {
+            previous = current;
+            return false;
+        }
+        return current !== previous;
+    });
+}
+
+/**
+ * Continues until the debuggee reaches a line, with a temporary breakpoint that is removed however it ends.
+ * An existing breakpoint at the line is reused. Stops elsewhere end it as `interrupted`.
+ */
+export async function runTo(
+    session: QuickJSDebugSession,
+    breakpoints: BreakpointManager,
+    fileName: string,
+    line: number,
+    options?: Omit<SteppingOptions, 'maxSteps' | 'step'>,
+): Promise<SteppingResult> {
+    const { signal, threadId } = options ?? {};
+    signal?.throwIfAborted();
+    const existing = breakpoints.find(fileName, line);
+    const temporary = existing ? null : breakpoints.add(fileName, line);
+    const wasDisabled = existing?.enabled === false;
+    if (existing && wasDisabled) {
+        breakpoints.setEnabled(existing.id, true);
+    }
+    try {
+        await breakpoints.sync(fileName);
+        const run = session.paused ? () => session.continue(threadId) : async () => {};
+        const event = await runAndWait(session, run, signal);
+        const frame = await session.getTopStack({ signal }, event.thread);
+        const reached = frame?.fileName === fileName && frame.lineNumber === line;
+        return { reason: reached ? 'done' : 'interrupted', steps: 0, event };
+    } finally {
+        if (temporary) {
+            breakpoints.removeById(temporary.id);
+        } else if (existing && wasDisabled) {
+            breakpoints.setEnabled(existing.id, false);
+        }
+    }
+}
@@ -0,0 +1,220 @@
+import EventEmitter from 'node:events';
+import { snapshotExpression } from './serialize.js';
+import { type QuickJSDebugSession, type QuickJSStackFrame, type QuickJSVariable, StaleHandleError } from './session.js';
+
+export interface Watch {
+    id: number;
+    expression: string;
+    /**
+     * Result of the latest evaluation, unless it failed.
+     */
+    result?: QuickJSVariable;
+    /**
+     * Display string of the latest result. Strings are quoted, objects are shown as the debuggee describes them.
+     */
+    value?: string;
+    /**
+     * Content of an object result encoded as JSON, since the display string of an object rarely changes.
+     */
+    snapshot?: string;
+    /**
+     * Message of the latest evaluation error.
+     */
+    error?: string;
+    /**
+     * Value at the previous stop.
+     */
+    previousValue?: string;
+    previousSnapshot?: string;
+    previousError?: string;
+    /**
+     * Whether the value, the content of an object or the error differs from the previous stop.
+     * Always `false` on the first evaluation.
+     */
+    changed: boolean;
+}
+
+/**
+ * Picks the frame that watches are evaluated in from the stack of the current thread.
+ */
+export type FrameSelector = (frames: QuickJSStackFrame[]) => QuickJSStackFrame | undefined;
+
+export interface WatchManagerEvents {
+    /**
+     * Emitted after the watches are evaluated.
+     */
+    update: [watches: Watch[]];
+    error: [error: unknown];
+}
+
+type WatchResult = Pick<Watch, 'result' | 'value' | 'snapshot' | 'error'>;
+
+function formatWatchValue(result: QuickJSVariable) {
+    if (result.primitive && result.type === 'string') {
+        return JSON.stringify(result.primitiveValue);
+    }
+    return String(result);
+}
+
+/**
+ * Encodes an object result by content. The expression is evaluated again, objects that cannot be encoded
+ * are compared by their display string.
+ */
+async function snapshotWatch(frame: QuickJSStackFrame, result: QuickJSVariable, expression: string) {
+    if (result.primitive) return undefined;
+    try {
+        const encoded = await frame.evaluateExpression(snapshotExpression(expression));
+        return typeof encoded.primitiveValue === 'string' ? encoded.primitiveValue : undefined;
+    } catch (err) {
+        if (err instanceof StaleHandleError) {
+            throw err;
+        }
+        return undefined;
+    }
+}
+
+async function evaluateWatch(frame: QuickJSStackFrame | undefined, expression: string): Promise<WatchResult> {
+    if (!frame) {
+        return { error: 'No stack frame' };
+    }
+    try {
+        const result = await frame.evaluateExpression(expression);
+        return { result, value: formatWatchValue(result), snapshot: await snapshotWatch(frame, result, expression) };
+    } catch (err) {
+        if (err instanceof StaleHandleError) {
+            throw err;
+        }
+        return { error: err instanceof Error ? err.message : String(err) };
+    }
+}
+
+/**
+ * Keeps a list of expressions and evaluates them each time the session stops, recording what changed
+ * since the previous stop.
+ */
+export class WatchManager extends EventEmitter<WatchManagerEvents> {
+    watches: Watch[] = [];
+    session: QuickJSDebugSession | null = null;
+    nextId = 1;
+    /**
+     * Defaults to the top frame.
+     */
+    selectFrame: FrameSelector = (frames) => frames[0];
+    /**
+     * Session generation of the latest evaluation.
+     */
+    private generation?: number;
+    private refreshId = 0;
+    private detachSession?: () => void;
+
+    /**
+     * Evaluates the watches on each reported stop of the session, and now if it is paused.
+     */
+    attach(session: QuickJSDebugSession) {
+        this.detach();
+        this.session = session;
+        const onStopped = () => {
+            this.refreshAsync();
+        };
+        session.on('stopped', onStopped);
+        this.detachSession = () => {
+            session.off('stopped', onStopped);
+        };
+        if (session.paused) {
+            this.refreshAsync();
+        }
+    }
+
+    detach() {
+        this.detachSession?.();
+        this.detachSession = undefined;
+        this.session = null;
+        this.generation = undefined;
+    }
+
+    get(idOrExpression: number | string) {
+        return this.watches.find((e) => e.id === idOrExpression || e.expression === idOrExpression);
+    }
+
+    list() {
+        return [...this.watches];
+    }
+
+    /**
+     * Adds a watch, or returns the existing one with the same expression.
+     */
+    add(expression: string) {
+        const trimmed = expression.trim();
+        if (!trimmed) {
+            throw new Error('Expression is empty');
+        }
+        let watch = this.get(trimmed);
+        if (!watch) {
+            watch = { id: this.nextId++, expression: trimmed, changed: false };
+            this.watches.push(watch);
+            if (this.session?.paused) {
+                this.refreshAsync();
+            }
+        }
+        return watch;
+    }
+
+    remove(idOrExpression: number | string) {
+        const watch = this.get(idOrExpression);
+        if (!watch) return false;
+        this.watches.splice(this.watches.indexOf(watch), 1);
+        return true;
+    }
+
+    refreshAsync(frame?: QuickJSStackFrame) {
+        this.refresh(frame).catch((err) => this.emit('error', err));
+    }
+
+    /**
+     * Evaluates all watches in `frame`, or in the selected frame of the current thread, and emits `update`.
+     * Previous values are only replaced when the debuggee stopped again since the latest evaluation,
+     * so switching frames does not lose them. Evaluations overtaken by a newer one are dropped.
+     */
+    async refresh(frame?: QuickJSStackFrame) {
+        const { session } = this;
+        if (!session?.paused) {
+            return this.list();
+        }
+        const refreshId = ++this.refreshId;
+        const { generation } = session;
+        const watches = this.list();
+        let results: WatchResult[];
+        try {
+            const target = frame ?? this.selectFrame(await session.traceStack());
+            results = await Promise.all(watches.map((e) => evaluateWatch(target, e.expression)));
+        } catch (err) {
+            if (err instanceof StaleHandleError || generation !== session.generation) {
+                return this.list();
+            }
+            throw err;
+        }
+        if (refreshId !== this.refreshId || generation !== session.generation) {
+            return this.list();
+        }
+        const stoppedAgain = this.generation !== generation;
+        this.generation = generation;
+        watches.forEach((watch, i) => {
+            if (stoppedAgain) {
+                watch.previousValue = watch.value;
+                watch.previousSnapshot = watch.snapshot;
+                watch.previousError = watch.error;
+            }
+            const { result, value, snapshot, error } = results[i];
+            watch.result = result;
+            watch.value = value;
+            watch.snapshot = snapshot;
+            watch.error = error;
+            const evaluatedBefore = watch.previousValue !== undefined || watch.previousError !== undefined;
+            const content = watch.snapshot ?? watch.value;
+            const previousContent = watch.previousSnapshot ?? watch.previousValue;
+            watch.changed = evaluatedBefore && (content !== previousContent || watch.error !== watch.previousError);
+        });
+        this.emit('update', this.list());
+        return this.list();
+    }
+}
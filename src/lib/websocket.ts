@@ -0,0 +1,248 @@
+import { Buffer } from 'node:buffer';
+import { createHash, randomBytes } from 'node:crypto';
+import EventEmitter from 'node:events';
+import { type IncomingMessage, request } from 'node:http';
+import type { Duplex } from 'node:stream';
+import {
+    type DebugTransport,
+    defaultMaxFrameLength,
+    type FrameOptions,
+    FrameTooLargeError,
+    QuickJSDebugConnection,
+} from './connection.js';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+enum Opcode {
+    Continuation = 0x0,
+    Text = 0x1,
+    Binary = 0x2,
+    Close = 0x8,
+    Ping = 0x9,
+    Pong = 0xa,
+}
+
+function computeAcceptKey(key: string) {
+    return createHash('sha1').update(`${key}${WEBSOCKET_GUID}`).digest('base64');
+}
+
+function encodeFrame(opcode: Opcode, payload: Uint8Array, masked: boolean) {
+    const length = payload.length;
+    let headerLength = 2;
+    if (length >= 0x10000) {
+        headerLength += 8;
+    } else if (length >= 126) {
+        headerLength += 2;
+    }
+    const maskOffset = headerLength;
+    if (masked) {
+        headerLength += 4;
+    }
+    const frame = Buffer.alloc(headerLength + length);
+    frame[0] = 0x80 | opcode;
+    if (length >= 0x10000) {
+        frame[1] = 127;
+        frame.writeBigUInt64BE(BigInt(length), 2);
+    } else if (length >= 126) {
+        frame[1] = 126;
+        frame.writeUInt16BE(length, 2);
+    } else {
+        frame[1] = length;
+    }
+    if (masked) {
+        frame[1] |= 0x80;
+        const mask = randomBytes(4);
+        mask.copy(frame, maskOffset);
+        for (let i = 0; i < length; i++) {
+            frame[headerLength + i] = payload[i] ^ mask[i & 3];
+        }
+    } else {
+        frame.set(payload, headerLength);
+    }
+    return frame;
+}
+
+export interface WebSocketTransportEvents {
+    data: [chunk: Buffer];
+    end: [];
+    close: [];
+    error: [error: Error];
+}
+
+/**
+ * Carries the debug byte stream in binary WebSocket frames over an upgraded socket.
+ *
+ * The payload is the same length-prefixed stream as TCP, so framing and request correlation
+ * are handled by {@link QuickJSDebugConnection} for both transports. A frame longer than `maxFrameLength` is
+ * reported as {@link FrameTooLargeError} and closes the socket before its payload is buffered.
+ */
+export class WebSocketTransport extends EventEmitter<WebSocketTransportEvents> implements DebugTransport {
+    socket: Duplex;
+    masked: boolean;
+    maxFrameLength: number;
+    closeSent = false;
+    private failed = false;
+    constructor(socket: Duplex, masked: boolean, head?: Buffer, options?: Pick<FrameOptions, 'maxFrameLength'>) {
+        super();
+        this.socket = socket;
+        this.masked = masked;
+        this.maxFrameLength = options?.maxFrameLength ?? defaultMaxFrameLength;
+        let buffer: Buffer = head ?? Buffer.alloc(0);
+        socket.on('data', (chunk: Buffer) => {
+            if (this.failed) return;
+            buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+            buffer = this.handleFrames(buffer);
+        });
+        socket.on('end', () => this.emit('end'));
+        socket.on('close', () => this.emit('close'));
+        socket.on('error', (err: Error) => this.emit('error', err));
+        if (buffer.length) {
+            setImmediate(() => {
+                buffer = this.handleFrames(buffer);
+            });
+        }
+    }
+
+    private handleFrames(buffer: Buffer) {
+        while (buffer.length >= 2) {
+            const opcode = (buffer[0] & 0x0f) as Opcode;
+            const masked = (buffer[1] & 0x80) !== 0;
+            let length = buffer[1] & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+                if (buffer.length < 4) break;
+                length = buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (buffer.length < 10) break;
+                length = Number(buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+            if (length > this.maxFrameLength) {
+                this.failed = true;
+                this.emit('error', new FrameTooLargeError(length, this.maxFrameLength));
+                this.end();
+                return Buffer.alloc(0);
+            }
+            const maskOffset = offset;
+            if (masked) {
+                offset += 4;
+            }
+            if (buffer.length < offset + length) break;
+            const payload = Buffer.from(buffer.subarray(offset, offset + length));
+            if (masked) {
+                for (let i = 0; i < length; i++) {
+                    payload[i] ^= buffer[maskOffset + (i & 3)];
+                }
+            }
+            buffer = buffer.subarray(offset + length);
+            this.handleFrame(opcode, payload);
+        }
+        return buffer;
+    }
+
+    private handleFrame(opcode: Opcode, payload: Buffer) {
+        switch (opcode) {
+            case Opcode.Continuation:
+            case Opcode.Text:
+            case Opcode.Binary:
+                this.emit('data', payload);
+                break;
+            case Opcode.Ping:
+                this.socket.write(encodeFrame(Opcode.Pong, payload, this.masked));
+                break;
+            case Opcode.Close:
+                this.end();
+                break;
+        }
+    }
+
+    write(chunk: Uint8Array) {
+        return this.socket.write(encodeFrame(Opcode.Binary, chunk, this.masked));
+    }
+
+    end() {
+        if (!this.closeSent) {
+            this.closeSent = true;
+            this.socket.end(encodeFrame(Opcode.Close, Buffer.alloc(0), this.masked));
+        }
+    }
+}
+
+/**
+ * Completes a WebSocket handshake for an HTTP `upgrade` event and returns the transport.
+ *
+ * @example
+ * httpServer.on('upgrade', (req, socket, head) => {
+ *     const connection = new QuickJSDebugConnection(acceptWebSocket(req, socket, head));
+ * });
+ */
+export function acceptWebSocket(
+    req: IncomingMessage,
+    socket: Duplex,
+    head?: Buffer,
+    options?: Pick<FrameOptions, 'maxFrameLength'>,
+) {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        throw new Error('Invalid WebSocket handshake');
+    }
+    if (req.headers['sec-websocket-version'] !== '13') {
+        socket.end('HTTP/1.1 426 Upgrade Required\r\nSec-WebSocket-Version: 13\r\n\r\n');
+        throw new Error(`Unsupported WebSocket version: ${req.headers['sec-websocket-version']}`);
+    }
+    socket.write(
+        [
+            'HTTP/1.1 101 Switching Protocols',
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            `Sec-WebSocket-Accept: ${computeAcceptKey(key)}`,
+            '',
+            '',
+        ].join('\r\n'),
+    );
+    return new WebSocketTransport(socket, false, head, options);
+}
+
+/**
+ * Opens a WebSocket to a debuggee or relay, e.g. `ws://localhost:19144/`.
+ */
+export function connectWebSocket(url: string | URL, options?: Pick<FrameOptions, 'maxFrameLength'>) {
+    const target = new URL(url);
+    if (target.protocol !== 'ws:') {
+        return Promise.reject(new Error(`Unsupported protocol: ${target.protocol}`));
+    }
+    const key = randomBytes(16).toString('base64');
+    return new Promise<WebSocketTransport>((resolve, reject) => {
+        const req = request({
+            host: target.hostname,
+            port: target.port || 80,
+            path: `${target.pathname}${target.search}`,
+            headers: {
+                Connection: 'Upgrade',
+                Upgrade: 'websocket',
+                'Sec-WebSocket-Key': key,
+                'Sec-WebSocket-Version': '13',
+            },
+        });
+        req.on('upgrade', (res, socket, head) => {
+            if (res.headers['sec-websocket-accept'] !== computeAcceptKey(key)) {
+                socket.destroy();
+                reject(new Error('Invalid WebSocket handshake'));
+                return;
+            }
+            resolve(new WebSocketTransport(socket, true, head, options));
+        });
+        req.on('response', (res) => {
+            res.resume();
+            reject(new Error(`Unexpected response: ${res.statusCode}`));
+        });
+        req.on('error', reject);
+        req.end();
+    });
+}
+
+export async function connectWebSocketDebugConnection(url: string | URL, options?: FrameOptions) {
+    return new QuickJSDebugConnection(await connectWebSocket(url, options), options);
+}
@@ -1,17 +1,49 @@
 #!/usr/bin/env node
 
 import EventEmitter from 'node:events';
+import { readFile, writeFile } from 'node:fs/promises';
 import { type AddressInfo, createServer, type Server, type Socket } from 'node:net';
+import { isAbsolute, relative } from 'node:path';
 import { clearLine, cursorTo } from 'node:readline';
 import { type REPLServer, start as startRepl } from 'node:repl';
-import { format, inspect } from 'node:util';
+import { PassThrough } from 'node:stream';
+import { format, inspect, isDeepStrictEqual, parseArgs } from 'node:util';
 import type { Context } from 'node:vm';
 import {
+    type AsyncStackSegment,
+    type AsyncTrackingOptions,
+    BreakpointManager,
+    type BreakpointOptions,
+    type DebugConnection,
+    decodeValue,
+    diffHeapSnapshots,
+    type EncodedValue,
+    type ExceptionDetails,
+    ExpressionCompleter,
+    formatAsyncStack,
+    formatRejection,
+    type HeapDiff,
+    type HeapSnapshot,
     MinecraftDebugSession,
     QuickJSDebugConnection,
     type QuickJSHandle,
+    QuickJSPlaceholder,
     type QuickJSScope,
     type QuickJSStackFrame,
+    RecordingDebugConnection,
+    type RejectionEvent,
+    runTo,
+    type SourceLocation,
+    SourceMapResolver,
+    SourceResolver,
+    type SteppingResult,
+    type StoppedEvent,
+    step,
+    stepUntil,
+    stepUntilChanged,
+    takeHeapSnapshot,
+    type Watch,
+    WatchManager,
 } from './index.js';
 import type { ProtocolInfo, StatTree } from './lib/minecraft.js';
 
@@ -34,15 +66,25 @@ function dumpStatTree(tree: StatTree) {
 
 class MCQuickJSDebugServer extends EventEmitter {
     server: Server;
-    connection: QuickJSDebugConnection | null = null;
-    breakpointMap = new Map<string, { line: number; column?: number }[]>();
+    connection: DebugConnection | null = null;
+    recordPath: string | null = null;
+    breakpoints = new BreakpointManager();
+    watches = new WatchManager();
+    sourceMaps: SourceMapResolver | null = null;
+    sources = new SourceResolver({ root: '.' });
+    stopOnException = false;
+    asyncTracking: AsyncTrackingOptions | null = null;
     logLevel = 0;
     socket: Socket | null = null;
     session: MinecraftDebugSession | null = null;
-    paused = false;
     stacks: QuickJSStackFrame[] = [];
     stackIndex = 0;
     currentStack: QuickJSStackFrame | null = null;
+    asyncStack: AsyncStackSegment[] = [];
+    heapSnapshots: HeapSnapshot[] = [];
+    stepping: AbortController | null = null;
+    pendingTasks = new Set<Promise<void>>();
+    completer = new ExpressionCompleter();
     protocolInfo: ProtocolInfo = { version: 1 };
     constructor(port: number) {
         super();
@@ -50,19 +92,27 @@ class MCQuickJSDebugServer extends EventEmitter {
             this.onConnection(socket);
         });
         this.server.listen(port);
+        this.breakpoints.on('error', (err) => this.emit('error', err));
+        this.breakpoints.on('logpoint', (breakpoint, message) => this.emit('logpoint', breakpoint, message));
+        this.watches.selectFrame = (frames) => this.selectStack(frames);
+        this.watches.on('update', (watches) => this.emit('watch', watches));
+        this.watches.on('error', (err) => this.emit('error', err));
     }
 
     reset() {
+        this.cancelStepping();
         if (this.connection) {
             this.connection.close();
         }
         this.socket = null;
         this.connection = null;
         this.session = null;
-        this.paused = false;
+        this.breakpoints.detach();
+        this.watches.detach();
         this.stacks = [];
         this.stackIndex = 0;
         this.currentStack = null;
+        this.asyncStack = [];
     }
 
     onConnection(socket: Socket) {
@@ -74,19 +124,33 @@ class MCQuickJSDebugServer extends EventEmitter {
         const address = `${addressInfo.address}:${addressInfo.port}`;
         this.socket = socket;
         this.connection = new QuickJSDebugConnection(socket);
+        if (this.recordPath) {
+            this.connection = new RecordingDebugConnection(this.connection, this.recordPath);
+        }
+        this.connection.on('error', (err) => this.emit('error', err));
         this.session = new MinecraftDebugSession(this.connection, this.protocolInfo);
-        this.paused = false;
         this.emit('online', address);
-        this.syncBreakpoints();
+        this.breakpoints.attach(this.session);
+        this.watches.attach(this.session);
+        this.session.setStopOnException(this.stopOnException);
+        this.session.setAsyncTracking(this.asyncTracking).catch((err) => this.emit('error', err));
         this.session.resume();
+        this.session.on('exception', (details) => {
+            this.emit('exception', details);
+        });
+        this.session.on('rejection', (ev) => {
+            this.emit('rejection', ev);
+        });
         this.session.on('stopped', (ev) => {
-            this.paused = true;
             this.emit('stopped', ev);
             if (ev.reason === 'breakpoint') {
                 this.emit('breakpointHit');
             }
             this.updateStateAsync();
         });
+        this.session.on('continued', () => {
+            this.emit('update');
+        });
         this.session.on('log', (ev) => {
             if ((ev.logLevel as number) < this.logLevel) return;
             this.emit('log', ev);
@@ -94,6 +158,7 @@ class MCQuickJSDebugServer extends EventEmitter {
         this.session.on('end', () => {
             this.connection?.close();
         });
+        this.session.on('error', (err) => this.emit('error', err));
         this.connection.on('end', () => {
             this.connection = null;
             this.emit('offline', address);
@@ -102,25 +167,51 @@ class MCQuickJSDebugServer extends EventEmitter {
         });
     }
 
+    get paused() {
+        return this.session?.paused ?? false;
+    }
+
     get port() {
         return (this.server.address() as AddressInfo).port;
     }
 
     wrapAsync<P extends unknown[]>(asyncFunc: (...args: P) => Promise<void>) {
         return (...args: P) => {
-            asyncFunc(...args).catch((err) => this.emit('error', err));
+            const task = asyncFunc(...args)
+                .catch((err) => {
+                    this.emit('error', err);
+                })
+                .finally(() => this.pendingTasks.delete(task));
+            this.pendingTasks.add(task);
         };
     }
 
+    /**
+     * Waits until every function wrapped by {@link wrapAsync} has finished, including ones started meanwhile.
+     */
+    async whenIdle() {
+        while (this.pendingTasks.size) {
+            await Promise.all(this.pendingTasks);
+        }
+    }
+
     updateStateAsync() {
         this.updateState().catch((err) => this.emit('error', err));
     }
 
+    selectStack(stacks: QuickJSStackFrame[]) {
+        const stackIndex = this.stackIndex >= 0 ? this.stackIndex : stacks.length + this.stackIndex;
+        return stacks[Math.max(Math.min(stackIndex, stacks.length - 1), 0)] as QuickJSStackFrame | undefined;
+    }
+
     async updateState() {
         if (this.session) {
             this.stacks = await this.session.traceStack();
-            const stackIndex = this.stackIndex >= 0 ? this.stackIndex : this.stacks.length + this.stackIndex;
-            this.currentStack = this.stacks[Math.max(Math.min(stackIndex, this.stacks.length - 1), 0)];
+            if (this.sourceMaps) {
+                await this.sourceMaps.resolveStackFrames(this.stacks);
+            }
+            this.currentStack = this.selectStack(this.stacks) ?? null;
+            this.asyncStack = this.session.getAsyncStack();
             this.emit('update');
             return;
         }
@@ -130,12 +221,51 @@ class MCQuickJSDebugServer extends EventEmitter {
     async evaluate(expression: string) {
         if (this.currentStack) {
             const ref = await this.currentStack.evaluateExpression(expression);
+            this.session?.clearCaches();
+            this.completer.clear();
             await this.updateState();
             return ref;
         }
         throw new Error('Debuggee is offline');
     }
 
+    /**
+     * Evaluates `expression` in the current frame and copies the result through JSON.
+     * Returns `undefined` if the value has no JSON form.
+     */
+    async evaluateJSON(expression: string) {
+        if (this.currentStack) {
+            const result = await this.currentStack.evaluateExpression(`JSON.stringify((${expression}))`);
+            return typeof result.primitiveValue === 'string'
+                ? (JSON.parse(result.primitiveValue) as unknown)
+                : undefined;
+        }
+        throw new Error('Debuggee is offline');
+    }
+
+    async setValue(target: string, expression: string) {
+        if (!this.currentStack) {
+            throw new Error('Debuggee is offline');
+        }
+        const match = assignTargetRegex.exec(target);
+        if (!match) {
+            throw new Error(`Invalid assignment target: ${target}`);
+        }
+        const [, objectPath, property, indexedPath, key] = match;
+        const value = await this.currentStack.pinExpression(expression);
+        let result: QuickJSHandle;
+        if (property && !objectPath) {
+            result = await this.currentStack.setLocal(property, value);
+        } else {
+            const object = await this.currentStack.evaluateExpression(objectPath ?? indexedPath);
+            result = await object.setProperty(property ?? String(JSON.parse(key)), value);
+        }
+        this.completer.clear();
+        await this.updateState();
+        this.watches.refreshAsync();
+        return result;
+    }
+
     async dumpScope() {
         if (this.currentStack) {
             return this.currentStack.getScopes();
@@ -157,52 +287,96 @@ class MCQuickJSDebugServer extends EventEmitter {
         throw new Error('Debuggee is offline');
     }
 
-    syncBreakpoints() {
-        if (this.session) {
-            const session = this.session;
-            for (const [fileName, breakpoints] of this.breakpointMap) {
-                session.setBreakpoints(fileName, breakpoints);
-            }
+    setSourceMaps(outDir: string | null) {
+        this.sourceMaps = outDir !== null ? new SourceMapResolver({ outDir }) : null;
+        if (this.paused) {
+            this.updateStateAsync();
         }
     }
 
-    addBreakpoint(lineNumber: number, fileName?: string) {
+    setSourceRoot(root: string) {
+        this.sources = new SourceResolver({ root });
+    }
+
+    setStopOnException(enabled: boolean) {
+        this.stopOnException = enabled;
+        this.session?.setStopOnException(enabled);
+    }
+
+    async setAsyncTracking(options: AsyncTrackingOptions | null) {
+        this.asyncTracking = options;
+        await this.session?.setAsyncTracking(options);
+    }
+
+    /**
+     * Translates a location in an original source to generated ones, or keeps it if it is not mapped.
+     */
+    async toGeneratedLocations(lineNumber: number, fileName?: string) {
         const fn = fileName ?? this.currentStack?.fileName ?? '';
         if (!fn) {
             throw new Error('Invalid file name or not specified');
         }
-        const breakpoints = this.breakpointMap.get(fn);
-        if (breakpoints) {
-            breakpoints.push({ line: lineNumber });
-            breakpoints.sort();
-        } else {
-            this.breakpointMap.set(fn, [{ line: lineNumber }]);
+        if (this.sourceMaps) {
+            const generated = await this.sourceMaps.toGenerated({ fileName: fn, line: lineNumber });
+            if (generated.length) {
+                return generated;
+            }
         }
-        this.syncBreakpoints();
-        return true;
+        return [{ fileName: fn, line: lineNumber }];
     }
 
-    removeBreakpoint(lineNumber: number, fileName?: string) {
-        const fn = fileName ?? this.currentStack?.fileName ?? '';
-        if (!fn) {
+    async toOriginalLocation(location: SourceLocation) {
+        return (await this.sourceMaps?.toOriginal(location)) ?? location;
+    }
+
+    /**
+     * Reads the lines around a location. Without a file name the current frame is listed, preferring its original
+     * source, and without a line the current line or the start of the file. Returns `null` if no file can be read.
+     */
+    async listSource(fileName: string | undefined, lineNumber: number | undefined, context: number) {
+        const { currentStack } = this;
+        const current: SourceLocation[] = [];
+        if (currentStack) {
+            if (currentStack.original) {
+                current.push(currentStack.original);
+            }
+            current.push({ fileName: currentStack.fileName, line: currentStack.lineNumber });
+        }
+        const candidates = fileName !== undefined ? [fileName] : current.map((e) => e.fileName);
+        if (!candidates.length) {
             throw new Error('Invalid file name or not specified');
         }
-        const breakpoints = this.breakpointMap.get(fn);
-        if (breakpoints) {
-            const index = breakpoints.findIndex((e) => e.line === lineNumber);
-            if (index >= 0) {
-                breakpoints.splice(index, 1);
-                this.syncBreakpoints();
-                return true;
+        for (const candidate of candidates) {
+            const localPath = this.sources.toLocalPath(candidate);
+            const isSameFile = (location: SourceLocation) => this.sources.toLocalPath(location.fileName) === localPath;
+            const currentLine = current.find(isSameFile)?.line;
+            const lines = await this.sources.getRange(candidate, lineNumber ?? currentLine ?? context + 1, context);
+            if (!lines) continue;
+            const breakpointLines = new Map<number, boolean>();
+            for (const breakpoint of this.breakpoints.list()) {
+                for (const location of [breakpoint, await this.toOriginalLocation(breakpoint)]) {
+                    if (isSameFile(location)) {
+                        breakpointLines.set(location.line, breakpoint.enabled || !!breakpointLines.get(location.line));
+                    }
+                }
             }
+            return { fileName: candidate, lines, currentLine, breakpointLines };
         }
-        return false;
+        return null;
+    }
+
+    async addBreakpoint(lineNumber: number, fileName?: string, options?: BreakpointOptions) {
+        const locations = await this.toGeneratedLocations(lineNumber, fileName);
+        return locations.map((e) => this.breakpoints.add(e.fileName, e.line, undefined, options));
+    }
+
+    async removeBreakpoint(lineNumber: number, fileName?: string) {
+        const locations = await this.toGeneratedLocations(lineNumber, fileName);
+        return locations.map((e) => this.breakpoints.remove(e.fileName, e.line)).some((e) => e);
     }
 
     async executeCommand(command: string) {
         if (this.connection && this.session) {
-            this.paused = false;
-            this.emit('update');
             switch (command.toLowerCase()) {
                 case 'resume':
                     this.session.resume();
@@ -235,6 +409,79 @@ class MCQuickJSDebugServer extends EventEmitter {
         throw new Error('Debuggee is offline');
     }
 
+    /**
+     * Runs a compound step, cancelling the previous one. Returns `null` if it is cancelled.
+     */
+    async runStepping(run: (signal: AbortSignal) => Promise<SteppingResult>) {
+        if (!this.session) {
+            throw new Error('Debuggee is offline');
+        }
+        this.cancelStepping();
+        const controller = new AbortController();
+        this.stepping = controller;
+        try {
+            return await run(controller.signal);
+        } catch (err) {
+            if (controller.signal.aborted) {
+                return null;
+            }
+            throw err;
+        } finally {
+            if (this.stepping === controller) {
+                this.stepping = null;
+            }
+        }
+    }
+
+    cancelStepping() {
+        if (this.stepping) {
+            this.stepping.abort(new Error('Stepping cancelled'));
+            this.stepping = null;
+            return true;
+        }
+        return false;
+    }
+
+    async runTo(lineNumber: number, fileName?: string) {
+        const [location] = await this.toGeneratedLocations(lineNumber, fileName);
+        return this.runStepping((signal) => {
+            const session = this.session as MinecraftDebugSession;
+            return runTo(session, this.breakpoints, location.fileName, location.line, { signal });
+        });
+    }
+
+    async stepCount(count: number, type?: 'in' | 'out') {
+        return this.runStepping((signal) => step(this.session as MinecraftDebugSession, count, { signal, step: type }));
+    }
+
+    async stepUntil(expression: string, changed: boolean) {
+        return this.runStepping((signal) => {
+            const session = this.session as MinecraftDebugSession;
+            return changed
+                ? stepUntilChanged(session, expression, { signal })
+                : stepUntil(session, expression, { signal });
+        });
+    }
+
+    async takeHeapSnapshot(includeScopes: boolean) {
+        if (!this.session) {
+            throw new Error('Debuggee is offline');
+        }
+        const snapshot = await takeHeapSnapshot(this.session, { includeScopes, threadId: this.session.currentThread });
+        this.heapSnapshots.push(snapshot);
+        return snapshot;
+    }
+
+    async saveHeapSnapshots(path: string) {
+        await writeFile(path, JSON.stringify(this.heapSnapshots));
+    }
+
+    async loadHeapSnapshots(path: string) {
+        const snapshots = JSON.parse(await readFile(path, 'utf-8')) as HeapSnapshot[];
+        this.heapSnapshots.push(...snapshots);
+        return snapshots.length;
+    }
+
     async import(useRequire: boolean, module: string, alias?: string) {
         if (this.session) {
             const moduleCode = JSON.stringify(module);
@@ -246,6 +493,7 @@ class MCQuickJSDebugServer extends EventEmitter {
             } else {
                 await rootStack.evaluateExpression(`import(${moduleCode}).then((m)=>globalThis[${aliasCode}]=m)`);
             }
+            this.completer.clear();
             return;
         }
         throw new Error('Debuggee is offline');
@@ -270,30 +518,133 @@ function inspectHandle(handle: QuickJSHandle) {
 
 const LOG_LEVEL = ['debug', 'info', 'warn', 'error', 'silent'];
 
+function formatFileName(fileName: string) {
+    return isAbsolute(fileName) ? relative(process.cwd(), fileName) : fileName;
+}
+
+function formatLocation(location: SourceLocation) {
+    return `${formatFileName(location.fileName)}:${location.line}`;
+}
+
+function formatWatchContent(value: string | undefined, snapshot: string | undefined) {
+    if (snapshot === undefined) return value;
+    const decoded = decodeValue(JSON.parse(snapshot) as EncodedValue, () => new QuickJSPlaceholder('function', ''));
+    return inspect(decoded, { breakLength: Infinity, depth: 2 });
+}
+
+function formatException(details: ExceptionDetails) {
+    const { constructorName, message, stack, frame } = details;
+    let summary = stack;
+    if (!summary) {
+        summary =
+            constructorName && message !== undefined ? `${constructorName}: ${message}` : (message ?? 'Exception');
+        if (frame) {
+            summary += `\n    at ${frame.name} (${formatFileName(frame.fileName)}:${frame.lineNumber})`;
+        }
+    }
+    return summary;
+}
+
 const integerRegex = /^\d+$/;
 const breakpointRegex = /^(?:(.+)\s+)?([+-])?(\d+)$/;
+const logMessageRegex = /\s+log\s+/;
+const breakpointOptionRegex = /\s+(if|hit)\s+/;
+const assignTargetRegex = /^(?:(.+)\.)?([A-Za-z_$][\w$]*)$|^(.+)\[(\d+|"(?:[^"\\]|\\.)*")\]$/;
+const assignmentRegex = /^(.+?)\s*=(?!=)\s*([\s\S]+)$/;
 const referenceLocatorRegex = /^(\d+)(?:\s+(\d+)\.\.(\d+))?$/;
 const importRegex = /^(\S+?)(?:\s+as\s+(\w+))?$/;
 const inspectMethods = [
     ['js', '[Default] Inspect recursively but cost more time'],
+    ['helpers', 'Like js, with Map and Set entries, dates and getters read by evaluating the expression again'],
     ['handle', 'Only show references of properties'],
 ];
+const listReasons: StoppedEvent['reason'][] = ['breakpoint', 'step', 'stepIn', 'stepOut'];
+const defaultListContext = 5;
+const listLocationRegex = /^(.*?)(?::(\d+))?$/;
+const commandLineRegex = /^\s*\.([\w-]*)(?:\s+([\s\S]*))?$/;
+const commandArgsRegex = /^(\S*)(?:\s+([\s\S]*))?$/;
+const commandKeywords: Record<string, string[]> = {
+    async: ['on', 'pause', 'off'],
+    breakpoints: ['enable', 'disable', 'save', 'load'],
+    exceptions: ['all', 'off'],
+    heap: ['snapshot', 'diff', 'save', 'load', 'clear'],
+    sourcemaps: ['reload', 'off'],
+    sources: ['reload'],
+    step: ['in', 'out', 'until', 'changed'],
+    watch: ['add', 'remove'],
+};
+
+const scriptWaitRegex = /^wait\s+(\S+)(?:\s+(\d+))?$/;
+const scriptExpectRegex = /^expect\s+([\s\S]+)$/;
+const scriptCommandRegex = /^\.(\S+)\s*([\s\S]*)$/;
+const defaultScriptTimeout = 30000;
+
+/**
+ * Splits `expect <expression> == <json>` at the last `==` that is followed by valid JSON.
+ */
+function parseExpectation(str: string) {
+    for (let index = str.lastIndexOf('=='); index > 0; index = str.lastIndexOf('==', index - 1)) {
+        const expression = str.slice(0, index).trim();
+        if (!expression || /[=!]$/.test(expression)) continue;
+        try {
+            const json = str.slice(index + 2).trim();
+            return { expression, json, expected: JSON.parse(json) as unknown };
+        } catch {
+            // `==` inside the expression
+        }
+    }
+    return null;
+}
+
+function completeWord(candidates: string[], partial: string): [string[], string] {
+    return [candidates.filter((e) => e.startsWith(partial)), partial];
+}
+interface DebuggerReplOptions {
+    recordPath?: string;
+    sourceMapDir?: string;
+    sourceRoot?: string;
+    /**
+     * Whether commands are read from the terminal. Otherwise no prompt is shown and commands are run
+     * with {@link DebuggerReplServer.runScript}.
+     */
+    interactive?: boolean;
+}
+
 class DebuggerReplServer {
     repl: REPLServer;
     server: MCQuickJSDebugServer;
+    interactive: boolean;
     acceptUserInput: boolean;
     recentCommand: string;
     inspectMethod: string;
-    constructor(port: number) {
+    autoList: boolean;
+    listPending: boolean;
+    constructor(port: number, options?: DebuggerReplOptions) {
+        const { recordPath, sourceMapDir, sourceRoot, interactive = true } = options ?? {};
+        this.interactive = interactive;
         this.repl = startRepl({
+            ...(interactive ? {} : { input: new PassThrough(), output: process.stdout, terminal: false, prompt: '' }),
             eval: (cmd, context, file, callback) => {
                 this.doEval(cmd, context, file, callback);
             },
+            completer: (line: string, callback: (err: Error | null, result?: [string[], string]) => void) => {
+                this.complete(line).then(
+                    (result) => callback(null, result),
+                    (err: Error) => callback(err),
+                );
+            },
         });
         this.server = new MCQuickJSDebugServer(port);
-        this.acceptUserInput = true;
+        this.server.recordPath = recordPath ?? null;
+        this.server.setSourceMaps(sourceMapDir ?? null);
+        if (sourceRoot) {
+            this.server.setSourceRoot(sourceRoot);
+        }
+        this.acceptUserInput = interactive;
         this.recentCommand = '';
         this.inspectMethod = 'js';
+        this.autoList = false;
+        this.listPending = false;
         this.defineDefaultCommands();
         this.repl.on('exit', () => {
             this.server.reset();
@@ -314,17 +665,39 @@ class DebuggerReplServer {
                     this.repl.displayPrompt(true);
                 }
             })
+            .on('stopped', (ev: StoppedEvent) => {
+                if (this.autoList && listReasons.includes(ev.reason)) {
+                    this.listPending = true;
+                }
+            })
             .on('update', () => {
                 this.updatePrompt();
                 if (this.acceptUserInput) {
                     this.repl.displayPrompt(true);
                 }
+                this.printPendingListing();
             })
             .on('log', ({ message, logLevel }) => {
                 if (this.repl.editorMode) return;
                 const levelStr = LOG_LEVEL[logLevel as number];
                 this.printLine(`[${levelStr}] ${message}`, true);
             })
+            .on('logpoint', (_breakpoint, message) => {
+                if (this.repl.editorMode) return;
+                this.printLine(`[Logpoint] ${message}`, true);
+            })
+            .on('watch', (watches: Watch[]) => {
+                if (this.repl.editorMode || !watches.length) return;
+                this.printWatches(watches);
+            })
+            .on('exception', (details: ExceptionDetails) => {
+                if (this.repl.editorMode) return;
+                this.printLine(`[Exception] ${formatException(details)}`, true);
+            })
+            .on('rejection', (ev: RejectionEvent) => {
+                if (this.repl.editorMode) return;
+                this.printLine(`[Rejection] ${formatRejection(ev)}`, true);
+            })
             .on('error', (err) => {
                 if (this.repl.editorMode) return;
                 this.printLine(format('[Debugger] %s', err), true);
@@ -334,7 +707,7 @@ class DebuggerReplServer {
     }
 
     printLine(str: string, rewriteLine?: boolean) {
-        if (rewriteLine) {
+        if (rewriteLine && this.interactive) {
             cursorTo(this.repl.output, 0);
             clearLine(this.repl.output, 0);
         }
@@ -357,8 +730,12 @@ class DebuggerReplServer {
                     prompt = `${this.recentCommand} ${prompt}`;
                 }
                 if (stack) {
-                    const fileName = stack.fileName.slice(-16);
-                    prompt = `[${fileName}:${stack.lineNumber}] ${prompt}`;
+                    const { fileName, line } = stack.original ?? { fileName: stack.fileName, line: stack.lineNumber };
+                    prompt = `[${formatFileName(fileName).slice(-16)}:${line}] ${prompt}`;
+                }
+                const { session } = this.server;
+                if (session.threads.size > 1 && session.currentThread !== undefined) {
+                    prompt = `#${session.currentThread} ${prompt}`;
                 }
             } else {
                 prompt = `[Running] Pause ${prompt}`;
@@ -366,47 +743,202 @@ class DebuggerReplServer {
         } else {
             prompt = `[Offline] ${prompt}`;
         }
-        this.repl.setPrompt(prompt);
+        this.repl.setPrompt(this.interactive ? prompt : '');
     }
 
     printStack() {
         if (this.server.currentStack) {
             const lines = this.server.stacks.map((stack, index, arr) => {
                 const currectFlag = stack === this.server.currentStack;
-                return `${currectFlag ? '*' : ' '} ${arr.length - index} ${stack.fileName}:${stack.lineNumber}`;
+                const generated = `${stack.fileName}:${stack.lineNumber}`;
+                const location = stack.original
+                    ? `${formatLocation(stack.original)} ${stack.original.name} (${generated})`
+                    : generated;
+                return `${currectFlag ? '*' : ' '} ${arr.length - index} ${location}`;
             });
+            if (this.server.asyncStack.length) {
+                lines.push(formatAsyncStack(this.server.asyncStack));
+            }
             this.printLine(lines.join('\n'), true);
         }
     }
 
-    printBreakpoints() {
-        const lines = [];
-        for (const [fileName, breakpoints] of this.server.breakpointMap) {
-            for (const { line } of breakpoints) {
-                lines.push(`${fileName}:${line}`);
-            }
+    printThreads() {
+        const { session } = this.server;
+        if (!session) return;
+        const lines = session.getThreads().map(({ id, stoppedEvent }) => {
+            const currentFlag = id === session.currentThread;
+            return `${currentFlag ? '*' : ' '} ${id}${stoppedEvent ? ` (stopped: ${stoppedEvent.reason})` : ''}`;
+        });
+        if (!lines.length) {
+            lines.push('Empty');
+        }
+        this.printLine(lines.join('\n'), true);
+    }
+
+    printWatches(watches: Watch[]) {
+        const lines = watches.map((watch) => {
+            const { id, expression, error, previousError, changed } = watch;
+            const current =
+                error !== undefined ? `<${error}>` : (formatWatchContent(watch.value, watch.snapshot) ?? '?');
+            const previous =
+                previousError !== undefined
+                    ? `<${previousError}>`
+                    : formatWatchContent(watch.previousValue, watch.previousSnapshot);
+            return `${changed ? '*' : ' '} ${id} ${expression} = ${current}${changed ? ` (was ${previous})` : ''}`;
+        });
+        if (!lines.length) {
+            lines.push('Empty');
+        }
+        this.printLine(lines.join('\n'), true);
+    }
+
+    printSteppingResult(result: SteppingResult | null) {
+        if (!result) {
+            this.printLine('Stepping cancelled', true);
+        } else if (result.reason === 'interrupted') {
+            const after = result.steps ? ` after ${result.steps} step(s)` : '';
+            this.printLine(`Stopped by ${result.event?.reason ?? 'debuggee'}${after}`, true);
+        } else if (result.reason === 'limit') {
+            this.printLine(`Gave up after ${result.steps} step(s)`, true);
+        }
+        this.printPendingListing();
+    }
+
+    async printSource(fileName?: string, lineNumber?: number, context = defaultListContext) {
+        const listing = await this.server.listSource(fileName, lineNumber, context);
+        if (!listing) {
+            const missing = fileName ?? this.server.currentStack?.fileName ?? '';
+            this.printLine(`Source not found: ${this.server.sources.toLocalPath(missing)}`, true);
+            return;
         }
+        const width = String(listing.lines.at(-1)?.line ?? 0).length;
+        const lines = listing.lines.map(({ line, text }) => {
+            const currentFlag = line === listing.currentLine ? '>' : ' ';
+            const enabled = listing.breakpointLines.get(line);
+            const breakpointFlag = enabled === undefined ? ' ' : enabled ? '*' : 'o';
+            return `${currentFlag}${breakpointFlag} ${String(line).padStart(width)}  ${text}`;
+        });
+        lines.unshift(`${formatFileName(this.server.sources.toLocalPath(listing.fileName))}:`);
+        this.printLine(lines.join('\n'), true);
+    }
+
+    /**
+     * Lists the source after a stop, once the state is updated and compound stepping has finished.
+     */
+    printPendingListing() {
+        const { currentStack, stepping } = this.server;
+        if (!this.listPending || stepping || !currentStack || currentStack.stale) return;
+        this.listPending = false;
+        this.printSource().catch((err) => this.server.emit('error', err));
+    }
+
+    printHeapSnapshots() {
+        const { heapSnapshots } = this.server;
+        if (!heapSnapshots.length) {
+            this.printLine('No heap snapshots');
+            return;
+        }
+        const lines = heapSnapshots.map((snapshot, index) => {
+            const time = new Date(snapshot.timestamp).toLocaleTimeString();
+            const truncated = snapshot.truncated ? ' (truncated)' : '';
+            return `${index + 1} ${time} ${snapshot.objects.length} objects${truncated}`;
+        });
+        this.printLine(lines.join('\n'));
+    }
+
+    printHeapSnapshot(snapshot: HeapSnapshot) {
+        const lines = [
+            `${snapshot.objects.length} objects${snapshot.truncated ? ', truncated' : ''}`,
+            'By constructor:',
+        ];
+        for (const e of snapshot.constructors.slice(0, 10)) {
+            lines.push(`  ${e.count} ${e.constructorName} (size ${e.size})`);
+        }
+        lines.push('Largest:');
+        for (const e of snapshot.largest.slice(0, 10)) {
+            lines.push(`  ${e.size} ${e.path} [${e.constructorName}] #${e.ref}`);
+        }
+        this.printLine(lines.join('\n'));
+    }
+
+    printHeapDiff(diff: HeapDiff) {
+        const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : String(delta));
+        const lines = ['By constructor:'];
+        for (const e of diff.constructors.slice(0, 10)) {
+            lines.push(`  ${formatDelta(e.delta)} ${e.constructorName} (${e.before} -> ${e.after})`);
+        }
+        lines.push('Changed sizes:');
+        for (const e of diff.objects.slice(0, 10)) {
+            lines.push(`  ${formatDelta(e.delta)} ${e.path} [${e.constructorName}] (${e.before} -> ${e.after})`);
+        }
+        this.printLine(lines.join('\n'));
+    }
+
+    async printBreakpoints() {
+        const breakpoints = this.server.breakpoints.list();
+        const originals = await Promise.all(breakpoints.map((e) => this.server.toOriginalLocation(e)));
+        const lines = breakpoints.map((breakpoint, index) => {
+            const { id, enabled, verified, condition, hitCondition, logMessage, hitCount } = breakpoint;
+            const flags = [enabled ? '' : 'disabled', this.server.session && !verified ? 'unverified' : '']
+                .filter((e) => e)
+                .join(', ');
+            const options = [
+                condition !== undefined ? `if ${condition}` : '',
+                hitCondition !== undefined ? `hit ${hitCondition} (${hitCount} hits)` : '',
+                logMessage !== undefined ? `log ${logMessage}` : '',
+            ]
+                .filter((e) => e)
+                .join(' ');
+            const location = formatLocation(originals[index]);
+            return `${id} ${location}${options ? ` ${options}` : ''}${flags ? ` (${flags})` : ''}`;
+        });
         if (!lines.length) {
             lines.push('Empty');
         }
         this.printLine(lines.join('\n'), true);
     }
 
+    parseBreakpointWithOptions(str: string) {
+        const options: BreakpointOptions = {};
+        let location = str;
+        const logMatch = logMessageRegex.exec(str);
+        if (logMatch) {
+            location = str.slice(0, logMatch.index);
+            options.logMessage = str.slice(logMatch.index + logMatch[0].length);
+        }
+        const parts = location.split(breakpointOptionRegex);
+        location = parts[0];
+        for (let i = 1; i < parts.length; i += 2) {
+            if (parts[i] === 'if') {
+                options.condition = parts[i + 1];
+            } else {
+                options.hitCondition = parts[i + 1];
+            }
+        }
+        const parsed = this.parseBreakpoint(location);
+        return parsed ? { ...parsed, options } : null;
+    }
+
     parseBreakpoint(str: string) {
         const match = breakpointRegex.exec(str);
         if (match) {
             const { currentStack } = this.server;
             if (currentStack) {
+                const current = currentStack.original ?? {
+                    fileName: currentStack.fileName,
+                    line: currentStack.lineNumber,
+                };
                 let fileName = match[1];
                 const offset = match[2];
                 let lineNumber = Number(match[3]);
                 if (offset === '+') {
-                    lineNumber += currentStack.lineNumber;
+                    lineNumber += current.line;
                 } else if (offset === '-') {
-                    lineNumber -= currentStack.lineNumber;
+                    lineNumber -= current.line;
                 }
                 if (!fileName) {
-                    fileName = currentStack.fileName;
+                    fileName = current.fileName;
                 }
                 return { fileName, lineNumber };
             }
@@ -418,7 +950,68 @@ class DebuggerReplServer {
         if (this.inspectMethod === 'handle') {
             return inspectHandle(handle);
         }
-        return inspect(await handle.inspect(), { colors: true });
+        const evaluateHelpers = this.inspectMethod === 'helpers';
+        return inspect(await handle.inspect({ evaluateHelpers }), { colors: this.interactive });
+    }
+
+    async complete(line: string): Promise<[string[], string]> {
+        const match = commandLineRegex.exec(line);
+        if (!match) {
+            return this.completeExpression(line);
+        }
+        const [, name, args] = match;
+        if (args === undefined) {
+            const names = Object.keys(this.repl.commands).sort();
+            return completeWord(
+                names.map((e) => `.${e}`),
+                `.${name}`,
+            );
+        }
+        if (name === 'set') {
+            return this.completeExpression(args);
+        }
+        const [, first, rest] = commandArgsRegex.exec(args) ?? [];
+        if (rest !== undefined) {
+            const takesExpression =
+                (name === 'watch' && first === 'add') ||
+                (name === 'step' && (first === 'until' || first === 'changed'));
+            return takesExpression ? this.completeExpression(rest) : [[], rest];
+        }
+        switch (name) {
+            case 'on':
+            case 'off':
+            case 'until':
+            case 'list': {
+                const fileNames = new Set(this.server.breakpoints.list().map((e) => e.fileName));
+                const keywords = name === 'list' ? ['on', 'off'] : [];
+                return completeWord([...keywords, ...[...fileNames].sort()], first);
+            }
+            case 'scope': {
+                const scopes = this.server.currentStack ? await this.server.dumpScope() : [];
+                return completeWord(
+                    scopes.map((_, i) => String(i)),
+                    first,
+                );
+            }
+            case 'setinspect':
+                return completeWord(
+                    inspectMethods.map((e) => e[0]),
+                    first,
+                );
+            case 'loglevel':
+                return completeWord(LOG_LEVEL, first);
+            default:
+                return completeWord(commandKeywords[name] ?? [], first);
+        }
+    }
+
+    async completeExpression(input: string): Promise<[string[], string]> {
+        const { currentStack } = this.server;
+        if (!this.server.paused || !currentStack) {
+            return [[], input];
+        }
+        const { completions, partial } = await this.server.completer.complete(currentStack, input);
+        return [completions, partial];
     }
 
     defineDefaultCommands() {
@@ -439,40 +1032,230 @@ class DebuggerReplServer {
                 if (integerRegex.test(args)) {
                     this.server.stackIndex = -Number.parseInt(args, 10);
                     await this.server.updateState();
+                    await this.server.watches.refresh();
                 }
                 this.printStack();
             }),
         });
+        this.repl.defineCommand('thread', {
+            help: 'Print script contexts or select the stopped one',
+            action: this.server.wrapAsync(async (args) => {
+                const { session } = this.server;
+                if (!session) {
+                    this.printLine('Debuggee is offline');
+                    return;
+                }
+                if (integerRegex.test(args)) {
+                    const threadId = Number.parseInt(args, 10);
+                    if (!session.threads.get(threadId)?.stoppedEvent) {
+                        this.printLine(`Only the stopped thread can be inspected, not ${threadId}`);
+                        return;
+                    }
+                    session.selectThread(threadId);
+                    this.server.stackIndex = 0;
+                    if (session.paused) {
+                        await this.server.updateState();
+                    }
+                } else if (args.trim()) {
+                    this.printLine(`Invalid thread: ${args}`);
+                    return;
+                }
+                this.printThreads();
+            }),
+        });
         this.repl.defineCommand('breakpoints', {
-            help: 'Show breakpoints',
-            action: () => {
-                this.printBreakpoints();
-            },
+            help: 'Show breakpoints, or enable|disable <id>, save|load <file>',
+            action: this.server.wrapAsync(async (args) => {
+                const [action, arg] = args.trim().split(/\s+/, 2);
+                const { breakpoints } = this.server;
+                if (action === 'enable' || action === 'disable') {
+                    if (!breakpoints.setEnabled(Number(arg), action === 'enable')) {
+                        this.printLine(`Invalid breakpoint id: ${arg}`);
+                        return;
+                    }
+                } else if (action === 'save' && arg) {
+                    await breakpoints.save(arg);
+                    this.printLine(`Breakpoints saved to ${arg}`);
+                    return;
+                } else if (action === 'load' && arg) {
+                    await breakpoints.load(arg);
+                } else if (action) {
+                    this.printLine(`Invalid syntax: ${args}`);
+                    return;
+                }
+                await this.printBreakpoints();
+            }),
+        });
+        this.repl.defineCommand('heap', {
+            help: 'List heap snapshots, or snapshot [scopes], diff [from] [to], save|load <file>, clear',
+            action: this.server.wrapAsync(async (args) => {
+                const [action, ...rest] = args.trim().split(/\s+/).filter(Boolean);
+                const { heapSnapshots } = this.server;
+                if (action === 'snapshot') {
+                    if (!this.server.paused) {
+                        this.printLine('Heap snapshots can only be taken when paused');
+                        return;
+                    }
+                    const snapshot = await this.server.takeHeapSnapshot(rest[0] === 'scopes');
+                    this.printLine(`Heap snapshot ${heapSnapshots.length}:`);
+                    this.printHeapSnapshot(snapshot);
+                } else if (action === 'diff') {
+                    const to = rest[1] ? Number(rest[1]) : heapSnapshots.length;
+                    const from = rest[0] ? Number(rest[0]) : to - 1;
+                    const before = heapSnapshots[from - 1] as HeapSnapshot | undefined;
+                    const after = heapSnapshots[to - 1] as HeapSnapshot | undefined;
+                    if (!before || !after) {
+                        this.printLine('Two heap snapshots are required');
+                        return;
+                    }
+                    this.printLine(`Heap snapshot ${from} -> ${to}:`);
+                    this.printHeapDiff(diffHeapSnapshots(before, after));
+                } else if (action === 'save' && rest[0]) {
+                    await this.server.saveHeapSnapshots(rest[0]);
+                    this.printLine(`Heap snapshots saved to ${rest[0]}`);
+                } else if (action === 'load' && rest[0]) {
+                    const count = await this.server.loadHeapSnapshots(rest[0]);
+                    this.printLine(`Loaded ${count} heap snapshots`);
+                } else if (action === 'clear') {
+                    heapSnapshots.length = 0;
+                    this.printLine('Heap snapshots cleared');
+                } else if (action) {
+                    this.printLine(`Invalid syntax: ${args}`);
+                } else {
+                    this.printHeapSnapshots();
+                }
+            }),
         });
         this.repl.defineCommand('on', {
-            help: 'Add breakpoint',
-            action: (args) => {
-                const parsed = this.parseBreakpoint(args);
+            help: 'Add breakpoint: [file] line [if <condition>] [hit <count>] [log <message with {expr}>]',
+            action: this.server.wrapAsync(async (args) => {
+                const parsed = this.parseBreakpointWithOptions(args);
                 if (parsed) {
-                    this.server.addBreakpoint(parsed.lineNumber, parsed.fileName);
-                    this.printLine(`Breakpoint ${parsed.fileName}:${parsed.lineNumber} added`);
+                    const breakpoints = await this.server.addBreakpoint(
+                        parsed.lineNumber,
+                        parsed.fileName,
+                        parsed.options,
+                    );
+                    const generated = breakpoints.map((e) => `${e.fileName}:${e.line}`).join(', ');
+                    const location = `${formatFileName(parsed.fileName)}:${parsed.lineNumber}`;
+                    this.printLine(`Breakpoint ${location}${generated !== location ? ` (${generated})` : ''} added`);
                 } else {
                     this.printLine(`Invalid breakpoint: ${args}`);
                 }
-            },
+            }),
         });
         this.repl.defineCommand('off', {
             help: 'Remove breakpoint',
-            action: (args) => {
+            action: this.server.wrapAsync(async (args) => {
                 const parsed = this.parseBreakpoint(args);
                 if (parsed) {
-                    this.server.removeBreakpoint(parsed.lineNumber, parsed.fileName);
-                    this.printLine(`Breakpoint ${parsed.fileName}:${parsed.lineNumber} removed`);
+                    await this.server.removeBreakpoint(parsed.lineNumber, parsed.fileName);
+                    this.printLine(`Breakpoint ${formatFileName(parsed.fileName)}:${parsed.lineNumber} removed`);
                 } else {
                     this.printLine(`Invalid breakpoint: ${args}`);
                 }
+            }),
+        });
+        this.repl.defineCommand('sourcemaps', {
+            help: 'Show source map directory, or set it with <outDir>, reload|off',
+            action: (args) => {
+                const arg = args.trim();
+                if (arg === 'off') {
+                    this.server.setSourceMaps(null);
+                } else if (arg === 'reload') {
+                    this.server.sourceMaps?.reset();
+                } else if (arg) {
+                    this.server.setSourceMaps(arg);
+                }
+                const { sourceMaps } = this.server;
+                this.printLine(sourceMaps ? `Source maps are loaded from ${sourceMaps.outDir}` : 'Source maps are off');
+            },
+        });
+        this.repl.defineCommand('set', {
+            help: 'Assign to a variable or property, e.g. .set player.health = 20',
+            action: this.server.wrapAsync(async (args) => {
+                const match = assignmentRegex.exec(args.trim());
+                if (!match) {
+                    this.printLine('Usage: .set <variable or property> = <expression>');
+                    return;
+                }
+                const [, target, expression] = match;
+                const result = await this.server.setValue(target.trim(), expression);
+                this.printLine(`${target.trim()} = ${await this.inspect(result)}`);
+            }),
+        });
+        this.repl.defineCommand('watch', {
+            help: 'List watch expressions, or manage them with add <expression>, remove <id|expression>',
+            action: this.server.wrapAsync(async (args) => {
+                const [, action, rest] = /^(\S*)\s*([\s\S]*)$/.exec(args.trim()) ?? [];
+                const { watches } = this.server;
+                if (action === 'add') {
+                    watches.add(rest);
+                    if (!this.server.paused) {
+                        this.printWatches(watches.list());
+                    }
+                    return;
+                }
+                if (action === 'remove') {
+                    if (!watches.remove(integerRegex.test(rest) ? Number.parseInt(rest, 10) : rest)) {
+                        this.printLine(`Watch not found: ${rest}`);
+                        return;
+                    }
+                } else if (action && action !== 'list') {
+                    this.printLine(`Invalid action: ${action}`);
+                    return;
+                }
+                this.printWatches(watches.list());
+            }),
+        });
+        this.repl.defineCommand('exceptions', {
+            help: 'Show exception stops, or set them with all|off',
+            action: (args) => {
+                const [mode, ...typeArgs] = args.trim().split(/\s+/).filter(Boolean);
+                if (typeArgs.length) {
+                    this.printLine('QuickJS does not expose thrown values, so exceptions cannot be filtered by type');
+                    return;
+                }
+                if (mode === 'off') {
+                    this.server.setStopOnException(false);
+                } else if (mode === 'all') {
+                    this.server.setStopOnException(true);
+                } else if (mode === 'uncaught') {
+                    this.printLine('QuickJS does not tell whether exceptions are caught, use all');
+                    return;
+                } else if (mode) {
+                    this.printLine(`Invalid mode: ${mode}`);
+                    return;
+                }
+                this.printLine(
+                    this.server.stopOnException ? 'Stopping on all exceptions' : 'Not stopping on exceptions',
+                );
             },
         });
+        this.repl.defineCommand('async', {
+            help: 'Show async tracking, or set it with on|pause|off. pause stops on unhandled rejections',
+            action: this.server.wrapAsync(async (args) => {
+                const mode = args.trim();
+                if (mode === 'on' || mode === 'pause') {
+                    await this.server.setAsyncTracking({ pauseOnRejection: mode === 'pause' });
+                } else if (mode === 'off') {
+                    await this.server.setAsyncTracking(null);
+                } else if (mode) {
+                    this.printLine(`Invalid mode: ${mode}`);
+                    return;
+                }
+                const { asyncTracking } = this.server;
+                if (!asyncTracking) {
+                    this.printLine('Async tracking is off');
+                } else if (this.server.paused || !this.server.session) {
+                    this.printLine(
+                        `Async tracking is on${asyncTracking.pauseOnRejection ? ', pausing on rejections' : ''}`,
+                    );
+                } else {
+                    this.printLine('Async tracking starts at the next stop');
+                }
+            }),
+        });
         this.repl.defineCommand('scope', {
             help: 'Dump scope',
             action: this.server.wrapAsync(async (args) => {
@@ -488,6 +1271,40 @@ class DebuggerReplServer {
                 this.printLine(scopes.map((scope, i) => `${i} ${inspectHandle(scope)}`).join('\n'));
             }),
         });
+        this.repl.defineCommand('list', {
+            help: 'List source around the current line, or [file][:line] [context], on|off to list after each stop',
+            action: this.server.wrapAsync(async (args) => {
+                const arg = args.trim();
+                if (arg === 'on' || arg === 'off') {
+                    this.autoList = arg === 'on';
+                    this.printLine(`Source listing after each stop is ${arg}`);
+                    return;
+                }
+                const tokens = arg ? arg.split(/\s+/) : [];
+                let context = defaultListContext;
+                if (tokens.length && integerRegex.test(tokens[tokens.length - 1])) {
+                    context = Number.parseInt(tokens.pop() as string, 10);
+                }
+                if (tokens.length > 1) {
+                    this.printLine('Usage: .list [file][:line] [context]');
+                    return;
+                }
+                const [, fileName, line] = listLocationRegex.exec(tokens[0] ?? '') ?? [];
+                await this.printSource(fileName || undefined, line ? Number.parseInt(line, 10) : undefined, context);
+            }),
+        });
+        this.repl.defineCommand('sources', {
+            help: 'Show the local directory of debuggee scripts, or set it with <dir>, reload',
+            action: (args) => {
+                const arg = args.trim();
+                if (arg === 'reload') {
+                    this.server.sources.reset();
+                } else if (arg) {
+                    this.server.setSourceRoot(arg);
+                }
+                this.printLine(`Sources are read from ${this.server.sources.root}`);
+            },
+        });
         this.repl.defineCommand('ref', {
             help: 'Dump reference',
             action: this.server.wrapAsync(async (args) => {
@@ -594,27 +1411,34 @@ class DebuggerReplServer {
             }),
         });
         this.repl.defineCommand('until', {
-            help: 'Continue execution until specified breakpoint hit',
+            help: 'Continue execution until specified line is reached',
             action: this.server.wrapAsync(async (args) => {
                 const parsed = this.parseBreakpoint(args);
                 if (parsed) {
-                    this.server.addBreakpoint(parsed.lineNumber, parsed.fileName);
-                    const breakpointHitListener = () => {
-                        this.server.removeBreakpoint(parsed.lineNumber, parsed.fileName);
-                        this.server.off('breakpointHit', breakpointHitListener);
-                    };
-                    this.server.on('breakpointHit', breakpointHitListener);
-                    await executeServerQuickCommand('Continue');
-                    this.repl.displayPrompt(true);
+                    const result = await this.server.runTo(parsed.lineNumber, parsed.fileName);
+                    this.printSteppingResult(result);
                 } else {
                     this.printLine(`Invalid breakpoint: ${args}`);
                 }
             }),
         });
         this.repl.defineCommand('step', {
-            help: 'Step current line',
-            action: this.server.wrapAsync(async (type) => {
-                if (type === 'in') {
+            help: 'Step current line, or step [in|out] <count>, until <expression>, changed <expression>',
+            action: this.server.wrapAsync(async (args) => {
+                const [, action, rest] = /^(\S*)\s*([\s\S]*)$/.exec(args.trim()) ?? [];
+                const type = action === 'in' || action === 'out' ? action : undefined;
+                const countArg = type ? rest : args.trim();
+                if (action === 'until' || action === 'changed') {
+                    if (!rest) {
+                        this.printLine(`Usage: .step ${action} <expression>`);
+                        return;
+                    }
+                    this.printSteppingResult(await this.server.stepUntil(rest, action === 'changed'));
+                } else if (integerRegex.test(countArg)) {
+                    this.printSteppingResult(await this.server.stepCount(Number.parseInt(countArg, 10), type));
+                } else if (countArg) {
+                    this.printLine(`Invalid step: ${args}`);
+                } else if (type === 'in') {
                     await executeServerQuickCommand('StepIn');
                 } else if (type === 'out') {
                     await executeServerQuickCommand('StepOut');
@@ -624,6 +1448,15 @@ class DebuggerReplServer {
                 this.repl.displayPrompt(true);
             }),
         });
+        this.repl.defineCommand('cancel', {
+            help: 'Cancel the running .until or .step command',
+            action: () => {
+                if (!this.server.cancelStepping()) {
+                    this.printLine('Nothing to cancel');
+                }
+                this.repl.displayPrompt(true);
+            },
+        });
         this.repl.defineCommand('stat', {
             help: '[Minecraft only] Show running statistics',
             action: () => {
@@ -697,13 +1530,156 @@ class DebuggerReplServer {
             this.acceptUserInput = true;
         }
     }
+
+    /**
+     * Runs a script of REPL input line by line, waiting for each command to finish. Besides dot-commands and
+     * expressions, scripts support `wait <state> [timeout]`, `wait <ms>` and `expect <expression> == <json>`.
+     * Empty lines and lines starting with `#` are skipped. Stops at the first line that fails or reports an error,
+     * and returns whether every line passed.
+     */
+    async runScript(path: string) {
+        const lines = (await readFile(path, 'utf-8')).split(/\r?\n/);
+        let errors = 0;
+        const onError = () => {
+            errors++;
+        };
+        this.server.on('error', onError);
+        try {
+            for (const [index, text] of lines.entries()) {
+                const line = text.trim();
+                if (!line || line.startsWith('#')) continue;
+                if (line === '.exit') break;
+                this.printLine(`> ${line}`);
+                let failure: string | null = null;
+                try {
+                    await this.runScriptLine(line);
+                } catch (err) {
+                    failure = err instanceof Error ? err.message : String(err);
+                }
+                if (!failure && errors) {
+                    failure = 'Debugger reported an error';
+                }
+                if (failure) {
+                    this.printLine(`[Script] ${path}:${index + 1}: ${failure}`);
+                    return false;
+                }
+            }
+            return true;
+        } finally {
+            this.server.off('error', onError);
+        }
+    }
+
+    async runScriptLine(line: string) {
+        const waitMatch = scriptWaitRegex.exec(line);
+        if (waitMatch) {
+            const [, target, timeout] = waitMatch;
+            await this.waitFor(target, timeout ? Number.parseInt(timeout, 10) : defaultScriptTimeout);
+            return;
+        }
+        const expectMatch = scriptExpectRegex.exec(line);
+        if (expectMatch) {
+            const expectation = parseExpectation(expectMatch[1]);
+            if (!expectation) {
+                throw new Error('Usage: expect <expression> == <json>');
+            }
+            const { expression, json, expected } = expectation;
+            const actual = await this.server.evaluateJSON(expression);
+            if (!isDeepStrictEqual(actual, expected)) {
+                throw new Error(`Expected ${expression} to be ${json}, got ${JSON.stringify(actual) ?? 'undefined'}`);
+            }
+            return;
+        }
+        const commandMatch = scriptCommandRegex.exec(line);
+        if (commandMatch) {
+            const [, name, args] = commandMatch;
+            const command = this.repl.commands[name];
+            if (!command) {
+                throw new Error(`Invalid command: .${name}`);
+            }
+            command.action.call(this.repl, args);
+            await this.server.whenIdle();
+            return;
+        }
+        if (!this.server.paused) {
+            throw new Error('Debuggee is not paused');
+        }
+        const result = await this.server.evaluate(line);
+        this.printLine(await this.inspect(result));
+    }
+
+    /**
+     * Waits until the debuggee is `connected`, `disconnected`, `stopped` with its state updated, or `running`.
+     * Returns at once if it already is. A number waits for that many milliseconds.
+     */
+    async waitFor(target: string, timeout: number) {
+        if (integerRegex.test(target)) {
+            await new Promise((resolve) => setTimeout(resolve, Number.parseInt(target, 10)));
+            return;
+        }
+        const { server } = this;
+        const conditions: Record<string, () => boolean> = {
+            connected: () => server.session !== null,
+            disconnected: () => server.session === null,
+            stopped: () => server.paused && !!server.currentStack && !server.currentStack.stale,
+            running: () => server.session !== null && !server.paused,
+        };
+        const condition = conditions[target];
+        if (!condition) {
+            throw new Error(`Invalid wait: ${target}, accept values: ${Object.keys(conditions).join(', ')}`);
+        }
+        if (condition()) return;
+        const { promise, resolve, reject } = Promise.withResolvers<void>();
+        const check = () => {
+            if (condition()) {
+                dispose();
+                resolve();
+            }
+        };
+        const timer = setTimeout(() => {
+            dispose();
+            reject(new Error(`Timed out waiting for ${target} after ${timeout} ms`));
+        }, timeout);
+        const dispose = () => {
+            clearTimeout(timer);
+            server.off('online', check);
+            server.off('update', check);
+        };
+        server.on('online', check);
+        server.on('update', check);
+        return promise;
+    }
 }
 
-function main(port: number) {
-    const replServer = new DebuggerReplServer(port);
+function main(args: string[]) {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            record: { type: 'string' },
+            'source-maps': { type: 'string' },
+            'source-root': { type: 'string' },
+            script: { type: 'string' },
+        },
+    });
+    const replServer = new DebuggerReplServer(Number(positionals[0]) || 19144, {
+        recordPath: values.record,
+        sourceMapDir: values['source-maps'],
+        sourceRoot: values['source-root'],
+        interactive: values.script === undefined,
+    });
     replServer.repl.on('exit', () => {
         process.exit(0);
     });
+    if (values.script !== undefined) {
+        replServer.runScript(values.script).then(
+            (passed) => process.exit(passed ? 0 : 1),
+            (err: unknown) => {
+                replServer.printLine(`[Script] ${err instanceof Error ? err.message : String(err)}`);
+                process.exit(1);
+            },
+        );
+    }
 }
 
-main(Number(process.argv[2]) || 19144);
+main(process.argv.slice(2));
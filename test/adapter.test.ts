@@ -0,0 +1,192 @@
+import { strict as assert } from 'node:assert';
+import { Buffer } from 'node:buffer';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { PassThrough } from 'node:stream';
+import { describe, type TestContext, test } from 'node:test';
+import type { DebugProtocol } from '@vscode/debugprotocol';
+import { MockDebuggee, type MockFrame, QuickJSDebugAdapter } from '../index.js';
+import { protocolVersion } from './helpers.js';
+
+const timeline: MockFrame[][] = [
+    [{ name: 'main', filename: 'main.js', line: 1 }],
+    [
+        {
+            name: 'tick',
+            filename: 'main.js',
+            line: 3,
+            scopes: [{ name: 'Local', variables: { count: 2, entity: { id: 7 } } }],
+        },
+        { name: 'main', filename: 'main.js', line: 10 },
+    ],
+];
+
+/**
+ * Talks to an adapter through its streams like a DAP client does.
+ */
+class DapClient {
+    input = new PassThrough();
+    output = new PassThrough();
+    adapter = new QuickJSDebugAdapter(this.input, this.output);
+    messages: DebugProtocol.ProtocolMessage[] = [];
+    private seq = 1;
+    private buffer = Buffer.alloc(0);
+    private waiters: { match: (message: DebugProtocol.ProtocolMessage) => boolean; resolve: () => void }[] = [];
+    constructor() {
+        this.output.on('data', (chunk: Buffer) => {
+            this.buffer = Buffer.concat([this.buffer, chunk]);
+            for (;;) {
+                const headerEnd = this.buffer.indexOf('\r\n\r\n');
+                if (headerEnd < 0) break;
+                const length = Number(/Content-Length: (\d+)/.exec(this.buffer.subarray(0, headerEnd).toString())?.[1]);
+                if (this.buffer.length < headerEnd + 4 + length) break;
+                const content = this.buffer.subarray(headerEnd + 4, headerEnd + 4 + length);
+                this.buffer = this.buffer.subarray(headerEnd + 4 + length);
+                this.receive(JSON.parse(content.toString()) as DebugProtocol.ProtocolMessage);
+            }
+        });
+    }
+
+    private receive(message: DebugProtocol.ProtocolMessage) {
+        this.messages.push(message);
+        this.waiters = this.waiters.filter((waiter) => {
+            if (!waiter.match(message)) return true;
+            waiter.resolve();
+            return false;
+        });
+    }
+
+    write(content: string) {
+        this.input.write(`Content-Length: ${Buffer.byteLength(content)}\r\n\r\n${content}`);
+    }
+
+    waitFor<T extends DebugProtocol.ProtocolMessage>(match: (message: DebugProtocol.ProtocolMessage) => boolean) {
+        const found = this.messages.find(match);
+        if (found) return Promise.resolve(found as T);
+        const { promise, resolve } = Promise.withResolvers<T>();
+        this.waiters.push({ match, resolve: () => resolve(this.messages.findLast(match) as T) });
+        return promise;
+    }
+
+    waitForEvent<T extends DebugProtocol.Event>(event: T['event']) {
+        return this.waitFor<T>((e) => e.type === 'event' && (e as DebugProtocol.Event).event === event);
+    }
+
+    async request<T extends DebugProtocol.Response>(command: string, args?: unknown) {
+        const seq = this.seq++;
+        this.write(JSON.stringify({ seq, type: 'request', command, arguments: args }));
+        const response = await this.waitFor<T>(
+            (e) => e.type === 'response' && (e as DebugProtocol.Response).request_seq === seq,
+        );
+        if (!response.success) throw new Error(response.message);
+        return response.body as T['body'];
+    }
+}
+
+async function attach(t: TestContext) {
+    const client = new DapClient();
+    t.after(() => client.adapter.shutdown());
+    const capabilities = await client.request<DebugProtocol.InitializeResponse>('initialize', { adapterID: 'test' });
+    assert.ok(capabilities?.supportsConditionalBreakpoints);
+    await client.waitForEvent('initialized');
+    await client.request('attach', { port: 0, host: 'localhost' });
+    const breakpoints = await client.request<DebugProtocol.SetBreakpointsResponse>('setBreakpoints', {
+        source: { path: 'main.js' },
+        breakpoints: [{ line: 3 }],
+    });
+    // Nothing is verified before the debuggee connects
+    assert.deepEqual(
+        breakpoints.breakpoints.map((e) => e.verified),
+        [false],
+    );
+    await client.request('configurationDone');
+    const debuggee = new MockDebuggee({ protocolVersion, timeline });
+    const { port } = client.adapter.server?.address() as AddressInfo;
+    await debuggee.connectTo(port, 'localhost');
+    const stopped = await client.waitForEvent<DebugProtocol.StoppedEvent>('stopped');
+    return { client, debuggee, stopped };
+}
+
+describe('QuickJSDebugAdapter', () => {
+    test('attaches, stops at a breakpoint and lists frames, scopes and variables', async (t) => {
+        const { client, stopped } = await attach(t);
+        assert.deepEqual([stopped.body.reason, stopped.body.threadId], ['breakpoint', 1]);
+        assert.ok(client.adapter.breakpoints.list()[0].verified);
+
+        const threads = await client.request<DebugProtocol.ThreadsResponse>('threads');
+        assert.deepEqual(threads.threads, [{ id: 1, name: 'Context 1' }]);
+        const stack = await client.request<DebugProtocol.StackTraceResponse>('stackTrace', { threadId: 1 });
+        assert.deepEqual(
+            stack.stackFrames.map((e) => [e.id, e.name, e.source?.path, e.line]),
+            [
+                [0, 'tick', 'main.js', 3],
+                [1, 'main', 'main.js', 10],
+            ],
+        );
+        const { scopes } = await client.request<DebugProtocol.ScopesResponse>('scopes', { frameId: 0 });
+        assert.deepEqual(
+            scopes.map((e) => e.name),
+            ['Local'],
+        );
+        const { variables } = await client.request<DebugProtocol.VariablesResponse>('variables', {
+            variablesReference: scopes[0].variablesReference,
+        });
+        assert.deepEqual(
+            variables.map((e) => [e.name, e.value]),
+            [
+                ['count', '2'],
+                ['entity', '[object Object]'],
+            ],
+        );
+        const evaluated = await client.request<DebugProtocol.EvaluateResponse>('evaluate', {
+            expression: 'count',
+            frameId: 0,
+        });
+        assert.equal(evaluated.result, '2');
+    });
+
+    test('gives async frames negative ids without scopes', async (t) => {
+        const { client } = await attach(t);
+        const { session } = client.adapter;
+        assert.ok(session);
+        session.asyncStack = [{ kind: 'then', frames: [{ functionName: 'load', fileName: 'main.js', line: 20 }] }];
+        const stack = await client.request<DebugProtocol.StackTraceResponse>('stackTrace', { threadId: 1 });
+        assert.deepEqual(
+            stack.stackFrames.slice(2).map((e) => [e.id, e.name, e.line, e.presentationHint]),
+            [
+                [-1, 'then', 0, 'label'],
+                [-2, 'load', 20, 'subtle'],
+            ],
+        );
+        assert.equal(stack.totalFrames, 4);
+        const { scopes } = await client.request<DebugProtocol.ScopesResponse>('scopes', { frameId: -2 });
+        assert.deepEqual(scopes, []);
+    });
+
+    test('lists no frames for threads that did not stop', async (t) => {
+        const { client, debuggee } = await attach(t);
+        debuggee.sendThreadEvent('new', 2);
+        const stack = await client.request<DebugProtocol.StackTraceResponse>('stackTrace', { threadId: 2 });
+        assert.deepEqual(stack, { stackFrames: [], totalFrames: 0 });
+    });
+
+    test('reports malformed frames and keeps serving requests', async (t) => {
+        const client = new DapClient();
+        t.after(() => client.adapter.shutdown());
+        client.write('{not json');
+        const output = await client.waitForEvent<DebugProtocol.OutputEvent>('output');
+        assert.equal(output.body.category, 'stderr');
+        assert.match(output.body.output, /Invalid message/);
+        const threads = await client.request<DebugProtocol.ThreadsResponse>('threads');
+        assert.deepEqual(threads.threads, [{ id: 0, name: 'Context 0' }]);
+        await assert.rejects(client.request('restartFrame'), /Unsupported request: restartFrame/);
+    });
+
+    test('ends after a disconnect request', async (t) => {
+        const { client } = await attach(t);
+        const ended = once(client.adapter, 'end');
+        await client.request('disconnect');
+        await ended;
+        assert.equal(client.adapter.session, null);
+    });
+});
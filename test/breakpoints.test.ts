@@ -0,0 +1,200 @@
+import { strict as assert } from 'node:assert';
+import { once } from 'node:events';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, type TestContext, test } from 'node:test';
+import {
+    BreakpointManager,
+    type MinecraftDebugSession,
+    MockDebuggee,
+    type MockFrame,
+    QuickJSDebugSession,
+    ReconnectingDebugConnection,
+} from '../index.js';
+import { connectMock, evaluateInContext, stopAtStart } from './helpers.js';
+
+// Starts at line 1, reaches line 3 of a loop six times, then ends at line 5
+const timeline: MockFrame[][] = [
+    [{ name: 'main', filename: 'main.js', line: 1 }],
+    ...[1, 2, 3, 4, 5, 6].map((i) => [
+        { name: 'main', filename: 'main.js', line: 3, scopes: [{ name: 'Local', variables: { i } }] },
+    ]),
+    [{ name: 'main', filename: 'main.js', line: 5 }],
+];
+
+/**
+ * Continues until the end of the timeline and returns the value of `i` at each reported stop.
+ */
+async function collectStops(session: MinecraftDebugSession, stops: number) {
+    const values: unknown[] = [];
+    for (let n = 0; n < stops; n++) {
+        const stopped = once(session, 'stopped');
+        await session.continue();
+        await stopped;
+        const frame = await session.getTopStack();
+        assert.ok(frame);
+        values.push((await frame.evaluateExpression('i')).primitiveValue);
+    }
+    return values;
+}
+
+async function setUp(
+    t: TestContext,
+    location: { line: number; condition?: string; hitCondition?: string; logMessage?: string },
+) {
+    const { debuggee, session } = await connectMock(t, { timeline, evaluate: evaluateInContext() });
+    const manager = new BreakpointManager();
+    const { line, ...options } = location;
+    manager.add('main.js', line, undefined, options);
+    manager.attach(session);
+    await manager.sync();
+    await stopAtStart(debuggee, session);
+    return { session, manager };
+}
+
+function breakpointPaths(debuggee: MockDebuggee) {
+    return debuggee.received.map((e) => (e as { breakpoints?: { path: string } }).breakpoints?.path);
+}
+
+function receivedBreakpoints(debuggee: MockDebuggee, path: string) {
+    const { promise, resolve } = Promise.withResolvers<void>();
+    const check = () => {
+        if (breakpointPaths(debuggee).includes(path)) {
+            debuggee.off('envelope', check);
+            resolve();
+        }
+    };
+    debuggee.on('envelope', check);
+    check();
+    return promise;
+}
+
+describe('BreakpointManager', () => {
+    test('stops on every hit without conditions', async (t) => {
+        const { session, manager } = await setUp(t, { line: 3 });
+        assert.deepEqual(await collectStops(session, 6), [1, 2, 3, 4, 5, 6]);
+        assert.equal(manager.list()[0].hitCount, 6);
+        assert.ok(manager.list()[0].verified);
+    });
+
+    test('stops on every second hit with a modulo hit condition', async (t) => {
+        const { session } = await setUp(t, { line: 3, hitCondition: '% 2' });
+        assert.deepEqual(await collectStops(session, 3), [2, 4, 6]);
+    });
+
+    test('only counts hits where the condition is met', async (t) => {
+        const { session, manager } = await setUp(t, { line: 3, condition: 'i > 3', hitCondition: '>= 2' });
+        assert.deepEqual(await collectStops(session, 2), [5, 6]);
+        assert.equal(manager.list()[0].hitCount, 3);
+    });
+
+    test('logs messages instead of stopping', async (t) => {
+        const { session, manager } = await setUp(t, { line: 3, logMessage: 'i is {i}' });
+        manager.add('main.js', 5);
+        await manager.sync();
+        const messages: string[] = [];
+        manager.on('logpoint', (_, message) => messages.push(message));
+        const stopped = once(session, 'stopped');
+        await session.continue();
+        await stopped;
+        assert.deepEqual(messages, ['i is 1', 'i is 2', 'i is 3', 'i is 4', 'i is 5', 'i is 6']);
+        assert.equal((await session.getTopStack())?.lineNumber, 5);
+    });
+
+    test('rejects invalid hit conditions', () => {
+        const manager = new BreakpointManager();
+        assert.throws(() => manager.add('main.js', 3, undefined, { hitCondition: 'often' }), /Invalid hit condition/);
+    });
+
+    test('checks the other breakpoints on a line when a condition throws', async (t) => {
+        const { session, manager } = await setUp(t, { line: 3, condition: 'missing.value' });
+        manager.add('main.js', 3, 5, { logMessage: 'i is {i}' });
+        await manager.sync();
+        const messages: string[] = [];
+        manager.on('logpoint', (_, message) => messages.push(message));
+        const errors: unknown[] = [];
+        manager.on('error', (err) => errors.push(err));
+        assert.deepEqual(await collectStops(session, 1), [1]);
+        assert.deepEqual(messages, ['i is 1']);
+        assert.equal(errors.length, 1);
+    });
+
+    test('stops at breakpoints with an empty log message', async (t) => {
+        const { session, manager } = await setUp(t, { line: 3, logMessage: '' });
+        assert.equal(manager.list()[0].logMessage, undefined);
+        assert.deepEqual(await collectStops(session, 2), [1, 2]);
+    });
+
+    test('records whether the debuggee verified each breakpoint', async (t) => {
+        const { session } = await connectMock(t, { timeline, verifyBreakpoint: (_path, line) => line !== 4 });
+        const manager = new BreakpointManager();
+        manager.attach(session);
+        const changes: string[] = [];
+        manager.on('change', (fileName) => changes.push(fileName));
+        await manager.replace('main.js', [{ line: 3 }, { line: 4 }]);
+        assert.deepEqual(
+            manager.list().map((e) => [e.line, e.verified]),
+            [
+                [3, true],
+                [4, false],
+            ],
+        );
+        assert.deepEqual(changes, ['main.js']);
+        // Disabled breakpoints are not sent, so they are not verified either
+        const [first] = manager.list();
+        manager.setEnabled(first.id, false);
+        await manager.sync('main.js');
+        assert.equal(first.verified, false);
+    });
+
+    test('saves and loads breakpoints', async (t) => {
+        const dir = await mkdtemp(join(tmpdir(), 'breakpoints-'));
+        t.after(() => rm(dir, { recursive: true }));
+        const path = join(dir, 'breakpoints.json');
+        const manager = new BreakpointManager();
+        manager.add('main.js', 3, undefined, { condition: 'i > 1' });
+        manager.setEnabled(manager.add('lib.js', 7).id, false);
+        await manager.save(path);
+
+        const loaded = new BreakpointManager();
+        loaded.add('old.js', 1);
+        await loaded.load(path);
+        assert.deepEqual(loaded.fileNames.sort(), ['lib.js', 'main.js']);
+        assert.deepEqual(
+            loaded.list().map(({ fileName, line, enabled, condition }) => ({ fileName, line, enabled, condition })),
+            [
+                { fileName: 'main.js', line: 3, enabled: true, condition: 'i > 1' },
+                { fileName: 'lib.js', line: 7, enabled: false, condition: undefined },
+            ],
+        );
+    });
+
+    test('leaves replaying breakpoints after a reconnect to the connection', async (t) => {
+        const debuggees: MockDebuggee[] = [];
+        const connection = new ReconnectingDebugConnection(async () => {
+            const debuggee = new MockDebuggee({ timeline });
+            debuggees.push(debuggee);
+            return debuggee.createConnection();
+        });
+        t.after(() => connection.close());
+        const session = new QuickJSDebugSession(connection);
+        const manager = new BreakpointManager();
+        manager.add('main.js', 3);
+        const connected = once(connection, 'connect');
+        connection.start();
+        await connected;
+        manager.attach(session);
+        await receivedBreakpoints(debuggees[0], 'main.js');
+
+        const reconnected = once(connection, 'connect');
+        debuggees[0].close();
+        await reconnected;
+        const [, debuggee] = debuggees;
+        // Envelopes arrive in order, so a later sync marks the end of any resync
+        manager.add('other.js', 1);
+        await receivedBreakpoints(debuggee, 'other.js');
+        assert.deepEqual(breakpointPaths(debuggee), ['main.js', 'other.js']);
+        assert.deepEqual(debuggee.breakpoints.get('main.js'), [3]);
+    });
+});
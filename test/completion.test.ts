@@ -0,0 +1,89 @@
+import { strict as assert } from 'node:assert';
+import { describe, type TestContext, test } from 'node:test';
+import { ExpressionCompleter, type MockFrame } from '../index.js';
+import { connectMock, stopAtStart } from './helpers.js';
+
+const timeline: MockFrame[][] = [
+    [
+        {
+            name: 'main',
+            filename: 'main.js',
+            line: 1,
+            scopes: [
+                {
+                    name: 'Local',
+                    variables: {
+                        player: { name: 'Steve', 'not-an-identifier': 1, ['__proto__']: { greet: 0, name: 0 } },
+                        playerCount: 2,
+                        empty: null,
+                    },
+                },
+            ],
+        },
+    ],
+];
+
+async function setUp(t: TestContext) {
+    const { debuggee, session } = await connectMock(t, {
+        timeline,
+        evaluate: (expression, frame) => {
+            switch (expression) {
+                case 'globalThis':
+                    return { world: {}, print: 0 };
+                case 'Object(playerCount)':
+                    return { ['__proto__']: { toFixed: 0, toPrecision: 0 } };
+                default:
+                    return frame.scopes?.[0].variables[expression];
+            }
+        },
+    });
+    const commands: string[] = [];
+    debuggee.on('request', (request) => commands.push(request.command));
+    await stopAtStart(debuggee, session);
+    const frame = await session.getTopStack();
+    assert.ok(frame);
+    return { debuggee, session, frame, commands };
+}
+
+describe('ExpressionCompleter', () => {
+    test('completes names in scope and globals', async (t) => {
+        const { frame } = await setUp(t);
+        const completer = new ExpressionCompleter();
+        assert.deepEqual(await completer.complete(frame, 'pl'), {
+            completions: ['player', 'playerCount'],
+            partial: 'pl',
+        });
+        assert.deepEqual(await completer.complete(frame, '1 + wor'), { completions: ['world'], partial: 'wor' });
+    });
+
+    test('completes members along the prototype chain', async (t) => {
+        const { frame } = await setUp(t);
+        const completer = new ExpressionCompleter();
+        // Names that need bracket notation are left out
+        assert.deepEqual(await completer.complete(frame, 'player.'), { completions: ['greet', 'name'], partial: '' });
+        assert.deepEqual(await completer.complete(frame, 'playerCount.to'), {
+            completions: ['toFixed', 'toPrecision'],
+            partial: 'to',
+        });
+        assert.deepEqual(await completer.complete(frame, 'empty.'), { completions: [], partial: '' });
+        assert.deepEqual(await completer.complete(frame, 'player.greet().'), { completions: [], partial: '' });
+    });
+
+    test('caches names until cleared or the debuggee stops again', async (t) => {
+        const { debuggee, session, frame, commands } = await setUp(t);
+        const completer = new ExpressionCompleter();
+        await completer.complete(frame, 'player.n');
+        const count = commands.length;
+        await completer.complete(frame, 'player.g');
+        assert.equal(commands.length, count);
+        completer.clear();
+        await completer.complete(frame, 'player.g');
+        assert.ok(commands.length > count);
+        await stopAtStart(debuggee, session);
+        const next = await session.getTopStack();
+        assert.ok(next);
+        const before = commands.length;
+        await completer.complete(next, 'player.g');
+        assert.ok(commands.length > before);
+    });
+});
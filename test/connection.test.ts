@@ -0,0 +1,135 @@
+import { strict as assert } from 'node:assert';
+import { Buffer } from 'node:buffer';
+import { type AddressInfo, createServer, type Socket } from 'node:net';
+import { PassThrough } from 'node:stream';
+import { describe, test } from 'node:test';
+import {
+    connectQuickJSDebugConnection,
+    type DebugProtocolError,
+    FrameTooLargeError,
+    InvalidMessageError,
+    MalformedHeaderError,
+    QuickJSDebugConnection,
+} from '../index.js';
+import { addMessageListener, encodeMessage } from '../lib/connection.js';
+
+function listen(transport: PassThrough, options?: Parameters<typeof addMessageListener>[3]) {
+    const messages: unknown[] = [];
+    const errors: DebugProtocolError[] = [];
+    addMessageListener(
+        transport,
+        (buffer) => messages.push(JSON.parse(buffer.toString())),
+        (error) => errors.push(error),
+        options,
+    );
+    return { messages, errors };
+}
+
+function frame(content: string) {
+    return Buffer.from(`${Buffer.byteLength(content).toString(16).padStart(8, '0')}\n${content}`);
+}
+
+describe('addMessageListener', () => {
+    test('joins frames split across chunks', () => {
+        const transport = new PassThrough();
+        const { messages, errors } = listen(transport);
+        const encoded = Buffer.concat([encodeMessage({ a: 1 }), encodeMessage({ b: 'ü' })]);
+        for (let i = 0; i < encoded.length; i += 3) {
+            transport.emit('data', encoded.subarray(i, i + 3));
+        }
+        assert.deepEqual(messages, [{ a: 1 }, { b: 'ü' }]);
+        assert.deepEqual(errors, []);
+    });
+
+    test('gives up on the stream after a malformed header', () => {
+        const transport = new PassThrough();
+        const { messages, errors } = listen(transport);
+        transport.emit('data', Buffer.concat([Buffer.from('garbage!\n'), encodeMessage({ a: 1 })]));
+        transport.emit('data', encodeMessage({ b: 2 }));
+        assert.deepEqual(messages, []);
+        assert.equal(errors.length, 1);
+        assert.ok(errors[0] instanceof MalformedHeaderError);
+        assert.equal(errors[0].header, 'garbage!\n');
+    });
+
+    test('finds the next header after a malformed one with resync', () => {
+        const transport = new PassThrough();
+        const { messages, errors } = listen(transport, { resync: true });
+        transport.emit('data', Buffer.concat([Buffer.from('noise'), encodeMessage({ a: 1 })]));
+        assert.deepEqual(messages, [{ a: 1 }]);
+        assert.equal(errors.length, 1);
+        assert.ok(errors[0] instanceof MalformedHeaderError);
+    });
+
+    test('skips frames larger than the limit', () => {
+        const transport = new PassThrough();
+        const { messages, errors } = listen(transport, { maxFrameLength: 16 });
+        const large = encodeMessage({ text: 'x'.repeat(32) });
+        transport.emit('data', large.subarray(0, 20));
+        transport.emit('data', Buffer.concat([large.subarray(20), encodeMessage({ a: 1 })]));
+        assert.deepEqual(messages, [{ a: 1 }]);
+        assert.equal(errors.length, 1);
+        assert.ok(errors[0] instanceof FrameTooLargeError);
+        assert.equal(errors[0].maxLength, 16);
+    });
+});
+
+describe('QuickJSDebugConnection', () => {
+    test('reports invalid messages and keeps reading', () => {
+        const transport = new PassThrough();
+        const connection = new QuickJSDebugConnection(transport);
+        const errors: unknown[] = [];
+        connection.on('error', (err) => errors.push(err));
+        const events: unknown[] = [];
+        connection.on('event', (ev) => events.push(ev));
+        transport.emit('data', frame('{not json'));
+        transport.emit('data', encodeMessage({ type: 'event', event: { type: 'PrintEvent' } }));
+        assert.deepEqual(events, [{ type: 'PrintEvent' }]);
+        assert.equal(errors.length, 1);
+        assert.ok(errors[0] instanceof InvalidMessageError);
+        assert.equal(errors[0].content, '{not json');
+    });
+
+    test('reports event envelopes without an event', () => {
+        const transport = new PassThrough();
+        const connection = new QuickJSDebugConnection(transport);
+        const errors: unknown[] = [];
+        connection.on('error', (err) => errors.push(err));
+        const events: unknown[] = [];
+        connection.on('event', (ev) => events.push(ev));
+        transport.emit('data', encodeMessage({ type: 'event' }));
+        transport.emit('data', encodeMessage({ type: 'event', event: { type: 'PrintEvent' } }));
+        assert.deepEqual(events, [{ type: 'PrintEvent' }]);
+        assert.equal(errors.length, 1);
+        assert.ok(errors[0] instanceof InvalidMessageError);
+    });
+
+    test('closes on a malformed header and rejects pending requests', async () => {
+        const transport = new PassThrough();
+        const connection = new QuickJSDebugConnection(transport);
+        const errors: unknown[] = [];
+        connection.on('error', (err) => errors.push(err));
+        const request = assert.rejects(connection.sendRequest('stackTrace'), /Protocol is closed/);
+        transport.emit('data', Buffer.from('not a header'));
+        // Reading the request lets the transport finish ending
+        transport.resume();
+        await request;
+        assert.ok(connection.ended);
+        assert.ok(errors[0] instanceof MalformedHeaderError);
+    });
+});
+
+describe('connectQuickJSDebugConnection', () => {
+    test('leaves no listeners of its own on the socket', async (t) => {
+        const server = createServer();
+        await new Promise<void>((resolve) => {
+            server.listen(0, 'localhost', resolve);
+        });
+        t.after(() => server.close());
+        const { port } = server.address() as AddressInfo;
+        const connection = await connectQuickJSDebugConnection({ port });
+        // Only the listener of the connection itself
+        assert.equal((connection.transport as Socket).listenerCount('error'), 1);
+        connection.close();
+    });
+});
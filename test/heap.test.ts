@@ -0,0 +1,64 @@
+import { strict as assert } from 'node:assert';
+import { once } from 'node:events';
+import { describe, test } from 'node:test';
+import { createContext, runInContext } from 'node:vm';
+import { diffHeapSnapshots, type MockFrame, takeHeapSnapshot } from '../index.js';
+import { connectMock, stopAtStart } from './helpers.js';
+
+const timeline: MockFrame[][] = [
+    [{ name: 'tick', filename: 'main.js', line: 1 }],
+    [{ name: 'tick', filename: 'main.js', line: 2 }],
+];
+
+function createGlobals() {
+    const context = createContext({});
+    runInContext(
+        `var cache = { entities: new Map([[{ id: 0 }, { hp: 20 }]]), list: [] };
+        var __quickjsDebuggerPinned = { h0: {} };
+        var __quickjsDebuggerAsync = { tasks: [{}] };`,
+        context,
+    );
+    return (expression: string) => runInContext(expression, context);
+}
+
+describe('takeHeapSnapshot', () => {
+    test('walks globals and map entries but not debugger registries', async (t) => {
+        const run = createGlobals();
+        const { debuggee, session } = await connectMock(t, { timeline, evaluate: run });
+        await stopAtStart(debuggee, session);
+        const snapshot = await takeHeapSnapshot(session);
+        const paths = snapshot.objects.map((e) => e.path).sort();
+        assert.deepEqual(paths, [
+            'globalThis',
+            'globalThis.cache',
+            'globalThis.cache.entities',
+            'globalThis.cache.entities.keys()[0]',
+            'globalThis.cache.entities.values()[0]',
+            'globalThis.cache.list',
+        ]);
+        const entities = snapshot.objects.find((e) => e.path === 'globalThis.cache.entities');
+        assert.deepEqual([entities?.kind, entities?.constructorName, entities?.size], ['map', 'Map', 1]);
+        assert.equal(snapshot.truncated, false);
+
+        const truncated = await takeHeapSnapshot(session, { maxObjects: 2 });
+        assert.equal(truncated.objects.length, 2);
+        assert.ok(truncated.truncated);
+    });
+
+    test('diffs snapshots by path', async (t) => {
+        const run = createGlobals();
+        const { debuggee, session } = await connectMock(t, { timeline, evaluate: run });
+        await stopAtStart(debuggee, session);
+        const before = await takeHeapSnapshot(session);
+        run('cache.list.push({}, {})');
+        const stopped = once(session, 'stopped');
+        await session.stepNext();
+        await stopped;
+        const after = await takeHeapSnapshot(session);
+        const diff = diffHeapSnapshots(before, after);
+        assert.deepEqual(diff.objects, [
+            { path: 'globalThis.cache.list', constructorName: 'Array', before: 0, after: 2, delta: 2 },
+        ]);
+        assert.deepEqual(diff.constructors, [{ constructorName: 'Object', before: 4, after: 6, delta: 2 }]);
+    });
+});
@@ -0,0 +1,61 @@
+import { once } from 'node:events';
+import { type AddressInfo, createServer } from 'node:net';
+import type { TestContext } from 'node:test';
+import { createContext, runInContext } from 'node:vm';
+import { MinecraftDebugSession, MockDebuggee, type MockFixture, type MockFrame, type MockValue } from '../index.js';
+import { ProtocolVersion } from '../lib/minecraft.js';
+
+export const protocolVersion = ProtocolVersion.SupportBreakpointsAsRequest;
+
+/**
+ * Connects a session to a mock debuggee and waits for the handshake, by default with the latest protocol version.
+ * The debuggee has not started yet. The connection is closed when the test ends.
+ */
+export async function connectMock(t: TestContext, fixture: MockFixture) {
+    const version = fixture.protocolVersion ?? protocolVersion;
+    const debuggee = new MockDebuggee({ ...fixture, protocolVersion: version });
+    const connection = await debuggee.createConnection();
+    t.after(() => connection.close());
+    const session = new MinecraftDebugSession(connection, { version });
+    await once(session, 'protocol');
+    return { debuggee, connection, session };
+}
+
+/**
+ * Pauses the debuggee at the first position of its timeline and waits until the session reports the stop.
+ */
+export async function stopAtStart(debuggee: MockDebuggee, session: MinecraftDebugSession) {
+    const stopped = once(session, 'stopped');
+    debuggee.position = 0;
+    debuggee.stop('entry');
+    await stopped;
+}
+
+/**
+ * Evaluates expressions as JavaScript with the variables of the frame in scope, for fixtures that run real code.
+ * Variables assigned by an expression are kept in the context, not in the frame.
+ */
+export function evaluateInContext(globals: Record<string, unknown> = {}) {
+    const context = createContext(globals);
+    return (expression: string, frame: MockFrame): MockValue => {
+        const variables = Object.assign({}, ...(frame.scopes ?? []).map((e) => e.variables));
+        const names = Object.keys(variables);
+        const fn = runInContext(`(function (${names.join(', ')}) { return (${expression}); })`, context);
+        return fn(...names.map((e) => variables[e]));
+    };
+}
+
+/**
+ * Returns a port nothing listens on.
+ */
+export async function unusedPort() {
+    const server = createServer();
+    await new Promise<void>((resolve) => {
+        server.listen(0, 'localhost', resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    await new Promise((resolve) => {
+        server.close(resolve);
+    });
+    return port;
+}
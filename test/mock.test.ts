@@ -0,0 +1,89 @@
+import { strict as assert } from 'node:assert';
+import { once } from 'node:events';
+import { describe, test } from 'node:test';
+import type { MockDebuggee, MockFrame } from '../index.js';
+import { LogLevel, ProtocolVersion } from '../lib/minecraft.js';
+import { connectMock, stopAtStart } from './helpers.js';
+
+const timeline: MockFrame[][] = [
+    [
+        {
+            name: 'tick',
+            filename: 'main.js',
+            line: 3,
+            scopes: [{ name: 'Local', variables: { entity: { id: 7, tags: ['a', 'b'] } } }],
+        },
+        { name: 'main', filename: 'main.js', line: 10 },
+    ],
+];
+
+const versions = [
+    ProtocolVersion.Initial,
+    ProtocolVersion.SupportTargetModuleUuid,
+    ProtocolVersion.SupportTargetSelection,
+    ProtocolVersion.SupportPasscode,
+    ProtocolVersion.SupportProfilerCaptures,
+    ProtocolVersion.SupportBreakpointsAsRequest,
+];
+
+/**
+ * Waits until the debuggee has received `count` envelopes, they arrive over a socket.
+ */
+async function receive(debuggee: MockDebuggee, count: number) {
+    while (debuggee.received.length < count) {
+        await once(debuggee, 'envelope');
+    }
+}
+
+describe('MockDebuggee', () => {
+    for (const version of versions) {
+        test(`speaks protocol version ${version}`, async (t) => {
+            const { debuggee, session } = await connectMock(t, { protocolVersion: version, timeline });
+            assert.equal(session.protocolVersion, version);
+            const status = await session.setBreakpoints('main.js', [{ line: 3 }]);
+            assert.deepEqual(status, [{ verified: true }]);
+            await receive(debuggee, 2);
+            assert.deepEqual(debuggee.received[0], { type: 'protocol', version });
+            assert.equal(
+                debuggee.received[1].type,
+                version >= ProtocolVersion.SupportBreakpointsAsRequest ? 'request' : 'breakpoints',
+            );
+            assert.deepEqual(debuggee.breakpoints.get('main.js'), [3]);
+        });
+    }
+
+    test('answers stack, scope and variable requests from the fixture', async (t) => {
+        const { debuggee, session } = await connectMock(t, { timeline });
+        await stopAtStart(debuggee, session);
+        const frames = await session.traceStack();
+        assert.deepEqual(
+            frames.map((e) => `${e.name} ${e.fileName}:${e.lineNumber}`),
+            ['tick main.js:3', 'main main.js:10'],
+        );
+        const [local] = await frames[0].getScopes();
+        const [entity] = await local.getProperties();
+        assert.equal(entity.name, 'entity');
+        const properties = await entity.getProperties();
+        assert.deepEqual(
+            properties.map((e) => [e.name, e.primitive ? e.primitiveValue : String(e)]),
+            [
+                ['id', 7],
+                ['tags', 'a,b'],
+            ],
+        );
+        await assert.rejects(async () => frames[0].evaluateExpression('missing'), /'missing' is not defined/);
+    });
+
+    test('sends Minecraft events on demand', async (t) => {
+        const { debuggee, session } = await connectMock(t, { timeline });
+        const log = once(session, 'log');
+        debuggee.print('hello', LogLevel.Warn);
+        assert.deepEqual((await log)[0], { type: 'PrintEvent', message: 'hello', logLevel: LogLevel.Warn });
+        const stat = once(session, 'stat');
+        debuggee.sendStat2(20, [{ name: 'ticks', values: [1] }]);
+        assert.equal((await stat)[0].tick, 20);
+        const capture = once(session, 'profilerCapture');
+        debuggee.sendProfilerCapture('/tmp', 'data');
+        assert.equal((await capture)[0].capture_data, 'data');
+    });
+});
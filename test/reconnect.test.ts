@@ -0,0 +1,128 @@
+import { strict as assert } from 'node:assert';
+import { once } from 'node:events';
+import { createServer } from 'node:net';
+import { describe, type TestContext, test } from 'node:test';
+import {
+    connectQuickJSDebugConnection,
+    MinecraftDebugSession,
+    MockDebuggee,
+    type MockFrame,
+    ReconnectingDebugConnection,
+} from '../index.js';
+import { protocolVersion, unusedPort } from './helpers.js';
+
+const timeline: MockFrame[][] = [[{ name: 'main', filename: 'main.js', line: 1 }]];
+
+function waitForEnvelopes(debuggee: MockDebuggee, count: number) {
+    const { promise, resolve } = Promise.withResolvers<void>();
+    const check = () => {
+        if (debuggee.received.length >= count) {
+            debuggee.off('envelope', check);
+            resolve();
+        }
+    };
+    debuggee.on('envelope', check);
+    check();
+    return promise;
+}
+
+function reconnectToMocks(t: TestContext) {
+    const debuggees: MockDebuggee[] = [];
+    const connection = new ReconnectingDebugConnection(async () => {
+        const debuggee = new MockDebuggee({ protocolVersion, timeline });
+        debuggees.push(debuggee);
+        return debuggee.createConnection();
+    });
+    t.after(() => connection.close());
+    return { connection, debuggees };
+}
+
+describe('connectQuickJSDebugConnection', () => {
+    test('backs off between attempts and gives up after maxAttempts', async () => {
+        const port = await unusedPort();
+        const start = performance.now();
+        await assert.rejects(
+            connectQuickJSDebugConnection({ port, maxAttempts: 3, initialDelay: 20, backoffFactor: 2 }),
+            { code: 'ECONNREFUSED' },
+        );
+        // Waits 20ms, then 40ms
+        assert.ok(performance.now() - start >= 55);
+    });
+
+    test('keeps dialing until the debuggee listens', async (t) => {
+        const port = await unusedPort();
+        const dialing = connectQuickJSDebugConnection({ port, initialDelay: 10, maxDelay: 20 });
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        const server = createServer((socket) => {
+            new MockDebuggee({ timeline }).attach(socket);
+        });
+        server.listen(port, 'localhost');
+        t.after(() => server.close());
+        const connection = await dialing;
+        connection.close();
+    });
+
+    test('stops when aborted', async () => {
+        const port = await unusedPort();
+        const controller = new AbortController();
+        const dialing = connectQuickJSDebugConnection({ port, initialDelay: 10000, signal: controller.signal });
+        setTimeout(() => controller.abort(), 20);
+        await assert.rejects(dialing, { name: 'AbortError' });
+    });
+});
+
+describe('ReconnectingDebugConnection', () => {
+    test('replays breakpoints, stop on exception and resume to a new connection', async (t) => {
+        const { connection, debuggees } = reconnectToMocks(t);
+        const session = new MinecraftDebugSession(connection, { version: protocolVersion });
+        const protocol = once(session, 'protocol');
+        connection.start();
+        await protocol;
+        session.setStopOnException(true);
+        await session.setBreakpoints('main.js', [{ line: 3 }]);
+        session.resume();
+        await waitForEnvelopes(debuggees[0], 4);
+
+        const disconnected = once(connection, 'disconnect');
+        const reconnected = once(connection, 'connect');
+        debuggees[0].close();
+        await disconnected;
+        await reconnected;
+        const [, debuggee] = debuggees;
+        // The session answers the handshake of the new debuggee after the replay
+        await waitForEnvelopes(debuggee, 4);
+        assert.deepEqual(
+            debuggee.received.map((e) => e.type),
+            ['stopOnException', 'request', 'resume', 'protocol'],
+        );
+        assert.equal(debuggee.stopOnException, true);
+        assert.deepEqual(debuggee.breakpoints.get('main.js'), [3]);
+    });
+
+    test('rejects requests while offline', async (t) => {
+        const { connection } = reconnectToMocks(t);
+        await assert.rejects(connection.sendRequest('stackTrace'), /Debuggee is offline/);
+        assert.throws(() => connection.sendEnvelope('pause'), /Debuggee is offline/);
+    });
+
+    test('aborts dialing when closed', async () => {
+        const port = await unusedPort();
+        let signal: AbortSignal | undefined;
+        const connection = new ReconnectingDebugConnection((s) => {
+            signal = s;
+            return connectQuickJSDebugConnection({ port, initialDelay: 10000, signal: s });
+        });
+        const errors: unknown[] = [];
+        connection.on('error', (err) => errors.push(err));
+        let ends = 0;
+        connection.on('end', () => ends++);
+        connection.start();
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        connection.close();
+        assert.ok(signal?.aborted);
+        // Let the aborted dial settle
+        await new Promise((resolve) => setImmediate(resolve));
+        assert.equal(ends, 1);
+        assert.deepEqual(errors, []);
+    });
+});
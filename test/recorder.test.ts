@@ -0,0 +1,81 @@
+import { strict as assert } from 'node:assert';
+import { once } from 'node:events';
+import { PassThrough } from 'node:stream';
+import { describe, test } from 'node:test';
+import {
+    MinecraftDebugSession,
+    MockDebuggee,
+    parseTrace,
+    RecordingDebugConnection,
+    ReplayDebugConnection,
+} from '../index.js';
+import { protocolVersion, stopAtStart } from './helpers.js';
+
+async function record() {
+    const debuggee = new MockDebuggee({
+        protocolVersion,
+        timeline: [
+            [{ name: 'main', filename: 'main.js', line: 1, scopes: [{ name: 'Local', variables: { x: 1 } }] }],
+            [{ name: 'main', filename: 'main.js', line: 2, scopes: [{ name: 'Local', variables: { x: 2 } }] }],
+        ],
+    });
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const connection = new RecordingDebugConnection(await debuggee.createConnection(), output);
+    const session = new MinecraftDebugSession(connection, { version: protocolVersion });
+    await once(session, 'protocol');
+    await stopAtStart(debuggee, session);
+    const values = [(await (await session.getTopStack())?.evaluateExpression('x'))?.primitiveValue];
+    const stopped = once(session, 'stopped');
+    await session.stepNext();
+    await stopped;
+    values.push((await (await session.getTopStack())?.evaluateExpression('x'))?.primitiveValue);
+    const ended = once(connection, 'end');
+    connection.close();
+    await ended;
+    return { trace: Buffer.concat(chunks).toString(), values };
+}
+
+describe('ReplayDebugConnection', () => {
+    test('replays a recorded session', async () => {
+        const { trace, values } = await record();
+        assert.deepEqual(values, [1, 2]);
+        const records = parseTrace(trace);
+        assert.equal(records.at(-1)?.kind, 'end');
+
+        const connection = new ReplayDebugConnection(records);
+        const session = new MinecraftDebugSession(connection, { version: protocolVersion });
+        const stopped = once(session, 'stopped');
+        connection.start();
+        await stopped;
+        let frame = await session.getTopStack();
+        assert.equal(frame?.lineNumber, 1);
+        assert.equal((await frame?.evaluateExpression('x'))?.primitiveValue, 1);
+        // Only what the original session asked for can be replayed
+        await assert.rejects(async () => frame?.evaluateExpression('y'), /No recorded response for evaluate/);
+
+        const stoppedAgain = once(session, 'stopped');
+        await session.stepNext();
+        await stoppedAgain;
+        frame = await session.getTopStack();
+        assert.equal(frame?.lineNumber, 2);
+        // The recorded end follows the last response
+        const ended = once(connection, 'end');
+        assert.equal((await frame?.evaluateExpression('x'))?.primitiveValue, 2);
+        await ended;
+        assert.ok(connection.finished);
+    });
+
+    test('matches arguments like they were recorded, without undefined values', async () => {
+        const { trace } = await record();
+        const connection = new ReplayDebugConnection(parseTrace(trace));
+        connection.sendEnvelope('protocol');
+        const frames = await connection.sendRequest<{ line: number }[]>('stackTrace', {
+            threadId: 1,
+            levels: undefined,
+        });
+        assert.equal(frames[0].line, 1);
+        connection.close();
+    });
+});
@@ -0,0 +1,104 @@
+import { strict as assert } from 'node:assert';
+import { type ChildProcess, spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, type TestContext, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { MockDebuggee, type MockFrame } from '../index.js';
+import { evaluateInContext, protocolVersion, unusedPort } from './helpers.js';
+
+const replPath = fileURLToPath(new URL('../repl.js', import.meta.url));
+
+const timeline: MockFrame[][] = [
+    [
+        {
+            name: 'main',
+            filename: 'main.js',
+            line: 1,
+            scopes: [{ name: 'Local', variables: { count: 2, entity: { id: 7 } } }],
+        },
+    ],
+];
+
+/**
+ * Runs the REPL with `--script` on a free port and collects its output until it exits.
+ */
+async function startScript(t: TestContext, lines: string[]) {
+    const dir = await mkdtemp(join(tmpdir(), 'repl-'));
+    t.after(() => rm(dir, { recursive: true }));
+    const scriptPath = join(dir, 'test.txt');
+    await writeFile(scriptPath, lines.join('\n'));
+    const port = await unusedPort();
+    const child: ChildProcess = spawn(process.execPath, [replPath, String(port), '--script', scriptPath], {
+        stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    t.after(() => {
+        if (child.exitCode === null) child.kill();
+    });
+    let output = '';
+    child.stdout?.setEncoding('utf-8').on('data', (chunk: string) => {
+        output += chunk;
+    });
+    const exited = once(child, 'exit').then(([code]) => ({ code: code as number | null, output }));
+    return { port, scriptPath, exited };
+}
+
+/**
+ * Connects a mock debuggee to the REPL once it listens.
+ */
+async function connectDebuggee(t: TestContext, port: number) {
+    const debuggee = new MockDebuggee({ protocolVersion, timeline, evaluate: evaluateInContext() });
+    t.after(() => debuggee.close());
+    for (let attempt = 0; ; attempt++) {
+        try {
+            await debuggee.connectTo(port, 'localhost');
+            return debuggee;
+        } catch (err) {
+            if (attempt >= 100) throw err;
+            await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+    }
+}
+
+describe('REPL scripts', () => {
+    test('runs commands and passes expectations', async (t) => {
+        const { port, exited } = await startScript(t, [
+            '# Comments and empty lines are skipped',
+            '',
+            'wait connected',
+            '.pause',
+            'wait stopped',
+            'expect count == 2',
+            'expect entity.id == 7 == true',
+            'expect entity == {"id": 7}',
+        ]);
+        await connectDebuggee(t, port);
+        const { code, output } = await exited;
+        assert.equal(code, 0, output);
+        assert.match(output, /> expect entity == \{"id": 7\}/);
+    });
+
+    test('exits with a failure at the first unmet expectation', async (t) => {
+        const { port, scriptPath, exited } = await startScript(t, [
+            'wait connected',
+            '.pause',
+            'wait stopped',
+            'expect count == 3',
+            'expect count == 2',
+        ]);
+        await connectDebuggee(t, port);
+        const { code, output } = await exited;
+        assert.equal(code, 1);
+        assert.ok(output.includes(`[Script] ${scriptPath}:4: Expected count to be 3, got 2`), output);
+        assert.ok(!output.includes('> expect count == 2'));
+    });
+
+    test('fails when a wait times out', async (t) => {
+        const { scriptPath, exited } = await startScript(t, ['wait connected 100']);
+        const { code, output } = await exited;
+        assert.equal(code, 1);
+        assert.ok(output.includes(`[Script] ${scriptPath}:1: Timed out waiting for connected after 100 ms`), output);
+    });
+});
@@ -0,0 +1,74 @@
+import { strict as assert } from 'node:assert';
+import { describe, test } from 'node:test';
+import { decodeValue, type EncodedValue, encodeValue } from '../index.js';
+
+function roundTrip(value: unknown) {
+    // Encoded values travel as JSON
+    return decodeValue(JSON.parse(JSON.stringify(encodeValue(value))) as EncodedValue);
+}
+
+describe('encodeValue', () => {
+    test('round-trips values JSON cannot represent', () => {
+        assert.equal(roundTrip(undefined), undefined);
+        assert.ok(Number.isNaN(roundTrip(Number.NaN)));
+        assert.equal(roundTrip(-Infinity), -Infinity);
+        assert.ok(Object.is(roundTrip(-0), -0));
+        assert.equal(roundTrip(2n ** 70n), 2n ** 70n);
+        assert.deepEqual(roundTrip([1, undefined, 'a']), [1, undefined, 'a']);
+    });
+
+    test('round-trips built-in objects', () => {
+        const date = new Date(1700000000000);
+        assert.deepEqual(roundTrip(date), date);
+        assert.deepEqual(roundTrip(/a+b/gi), /a+b/gi);
+        assert.deepEqual(
+            roundTrip(
+                new Map<unknown, unknown>([
+                    [1, 'one'],
+                    [{ k: true }, new Set([1n])],
+                ]),
+            ),
+            new Map<unknown, unknown>([
+                [1, 'one'],
+                [{ k: true }, new Set([1n])],
+            ]),
+        );
+        assert.deepEqual(roundTrip(new Float32Array([0.5, 2])), new Float32Array([0.5, 2]));
+        assert.deepEqual(roundTrip(new BigInt64Array([-1n])), new BigInt64Array([-1n]));
+        assert.deepEqual(roundTrip(new Uint8Array([1, 2]).buffer), new Uint8Array([1, 2]).buffer);
+    });
+
+    test('keeps the type, message and stack of errors', () => {
+        const error = new RangeError('out of range');
+        error.stack = '    at f (main.js:3)';
+        const decoded = roundTrip(error);
+        assert.ok(decoded instanceof RangeError);
+        assert.equal(decoded.message, 'out of range');
+        assert.equal(decoded.stack, 'RangeError: out of range\n    at f (main.js:3)');
+    });
+
+    test('preserves cycles and shared objects', () => {
+        const shared = { name: 'shared' };
+        const root: Record<string, unknown> = { a: shared, b: shared };
+        root.self = root;
+        const decoded = roundTrip(root) as Record<string, unknown>;
+        assert.equal(decoded.self, decoded);
+        assert.equal(decoded.a, decoded.b);
+        assert.deepEqual(decoded.a, shared);
+    });
+
+    test('passes functions and class instances by reference', () => {
+        class Entity {
+            id = 1;
+        }
+        const refs: object[] = [];
+        const fn = () => 1;
+        const entity = new Entity();
+        const encoded = encodeValue({ fn, entity, plain: { id: 2 } }, (v) => refs.push(v) - 1);
+        assert.deepEqual(refs, [fn, entity]);
+        const decoded = decodeValue(encoded, (index) => `ref ${index}`);
+        assert.deepEqual(decoded, { fn: 'ref 0', entity: 'ref 1', plain: { id: 2 } });
+        assert.throws(() => encodeValue(fn), /Cannot encode a function/);
+        assert.throws(() => decodeValue({ $t: 'ref', v: 0 }), /Unexpected reference/);
+    });
+});
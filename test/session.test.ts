@@ -0,0 +1,173 @@
+import { strict as assert } from 'node:assert';
+import { once } from 'node:events';
+import { describe, type TestContext, test } from 'node:test';
+import {
+    MinecraftDebugSession,
+    MockDebuggee,
+    type MockFrame,
+    type MockValue,
+    QuickJSPlaceholder,
+    ReconnectingDebugConnection,
+    StaleHandleError,
+} from '../index.js';
+import { connectMock, protocolVersion, stopAtStart } from './helpers.js';
+
+const timeline: MockFrame[][] = [
+    [
+        {
+            name: 'main',
+            filename: 'main.js',
+            line: 1,
+            scopes: [
+                {
+                    name: 'Local',
+                    variables: {
+                        point: { x: 1 },
+                        errors: ['Error: boom'],
+                        // Lists no entries as variables, like a Map in QuickJS
+                        lookup: new Map([['a', 1]]) as unknown as MockValue,
+                    },
+                },
+            ],
+        },
+    ],
+    [{ name: 'main', filename: 'main.js', line: 2 }],
+];
+
+async function setUp(t: TestContext) {
+    const { debuggee, session } = await connectMock(t, { timeline });
+    const commands: string[] = [];
+    debuggee.on('request', (request) => commands.push(request.command));
+    await stopAtStart(debuggee, session);
+    const frame = await session.getTopStack();
+    assert.ok(frame);
+    return { debuggee, session, frame, commands };
+}
+
+describe('QuickJSDebugSession', () => {
+    test('only evaluates inspect helpers when asked to', async (t) => {
+        const { frame, commands } = await setUp(t);
+        const point = await frame.evaluateExpression('point');
+        commands.length = 0;
+        assert.deepEqual(Object.entries((await point.inspect()) as object), [['x', 1]]);
+        assert.ok(!commands.includes('evaluate'));
+        await frame.evaluateExpression('point').then((e) => e.inspect({ evaluateHelpers: true }));
+        assert.ok(commands.includes('evaluate'));
+    });
+
+    test('inspects maps as placeholders without helpers', async (t) => {
+        const { frame } = await setUp(t);
+        const lookup = await frame.evaluateExpression('lookup');
+        const inspected = await lookup.inspect();
+        assert.ok(inspected instanceof QuickJSPlaceholder);
+        assert.equal(String(inspected), '[Map]');
+    });
+
+    test('inspects arrays as arrays whatever their string form', async (t) => {
+        const { frame } = await setUp(t);
+        const errors = await frame.evaluateExpression('errors');
+        const inspected = await errors.inspect();
+        assert.ok(Array.isArray(inspected));
+        assert.deepEqual([...inspected], ['Error: boom']);
+    });
+
+    test('stays paused when a step request fails', async (t) => {
+        const { debuggee, session } = await setUp(t);
+        // The mock runs on `next` before answering, so make it refuse the request instead
+        debuggee.on('request', (request) => {
+            if (request.command === 'next') request.command = 'invalid';
+        });
+        await assert.rejects(session.stepNext(), /Unknown command/);
+        assert.ok(session.paused);
+    });
+
+    test('evaluates in a debuggee that was paused before the session attached', async (t) => {
+        const { debuggee, session } = await connectMock(t, { timeline });
+        debuggee.position = 0;
+        debuggee.paused = true;
+        const frame = await session.getTopStack();
+        assert.ok(frame);
+        const point = await frame.evaluateExpression('point');
+        assert.deepEqual(Object.entries((await point.inspect()) as object), [['x', 1]]);
+        session.resume();
+        assert.ok(point.stale);
+        await assert.rejects(point.inspect(), StaleHandleError);
+    });
+
+    test('makes handles stale when a reconnecting connection drops', async (t) => {
+        const debuggees: MockDebuggee[] = [];
+        const connection = new ReconnectingDebugConnection(async () => {
+            const debuggee = new MockDebuggee({ protocolVersion, timeline });
+            debuggees.push(debuggee);
+            return debuggee.createConnection();
+        });
+        t.after(() => connection.close());
+        const session = new MinecraftDebugSession(connection, { version: protocolVersion });
+        const protocol = once(session, 'protocol');
+        connection.start();
+        await protocol;
+        await stopAtStart(debuggees[0], session);
+        const frame = await session.getTopStack();
+        assert.ok(frame);
+        const continued = once(session, 'continued');
+        const disconnected = once(connection, 'disconnect');
+        debuggees[0].close();
+        await disconnected;
+        await continued;
+        assert.ok(!session.paused);
+        assert.ok(frame.stale);
+    });
+
+    test('reports failures while handling a stop as errors', async (t) => {
+        const { debuggee, session } = await connectMock(t, { timeline });
+        session.on('stopped', () => {
+            throw new Error('Listener failed');
+        });
+        const errors: unknown[] = [];
+        const failed = new Promise<void>((resolve) => {
+            session.on('error', (err) => {
+                errors.push(err);
+                resolve();
+            });
+        });
+        debuggee.position = 0;
+        debuggee.stop('entry');
+        await failed;
+        assert.match(String(errors[0]), /Listener failed/);
+    });
+
+    test('only selects the stopped thread', async (t) => {
+        const { debuggee, session } = await connectMock(t, { timeline });
+        const context = new Promise((resolve) => {
+            session.once('context', resolve);
+        });
+        debuggee.sendThreadEvent('new', 2);
+        await context;
+        await stopAtStart(debuggee, session);
+        assert.throws(() => session.selectThread(2), /Thread 2 is not stopped/);
+        await assert.rejects(session.traceStack(undefined, 2), /Thread 2 is not stopped/);
+        session.selectThread(debuggee.thread);
+        assert.equal((await session.traceStack())[0].name, 'main');
+    });
+
+    test('reports every exception stop with the frame that threw', async (t) => {
+        const { debuggee, session } = await connectMock(t, {
+            timeline: [...timeline, [{ name: 'fail', filename: 'main.js', line: 7, throws: true }]],
+        });
+        session.setStopOnException(true);
+        await stopAtStart(debuggee, session);
+        const events: string[] = [];
+        const reported = new Promise<void>((resolve) => {
+            session.once('exception', (details) => {
+                events.push(`exception at ${details.frame?.name}`);
+            });
+            session.once('stopped', (ev) => {
+                events.push(`stopped on ${ev.reason}`);
+                resolve();
+            });
+        });
+        await session.continue();
+        await reported;
+        assert.deepEqual(events, ['exception at fail', 'stopped on exception']);
+    });
+});
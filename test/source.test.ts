@@ -0,0 +1,48 @@
+import { strict as assert } from 'node:assert';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, type TestContext, test } from 'node:test';
+import { SourceResolver } from '../index.js';
+
+async function setUp(t: TestContext) {
+    const root = await mkdtemp(join(tmpdir(), 'sources-'));
+    t.after(() => rm(root, { recursive: true }));
+    await mkdir(join(root, 'lib'));
+    await writeFile(join(root, 'main.js'), 'one\r\ntwo\nthree\nfour\nfive\n');
+    await writeFile(join(root, 'lib', 'util.js'), 'export {};');
+    return { root, sources: new SourceResolver({ root }) };
+}
+
+describe('SourceResolver', () => {
+    test('reads relative file names from the root and absolute ones as they are', async (t) => {
+        const { root, sources } = await setUp(t);
+        // Both line breaks split, a trailing one does not add a line
+        assert.deepEqual(await sources.getLines('main.js'), ['one', 'two', 'three', 'four', 'five']);
+        assert.deepEqual(await sources.getLines('lib/util.js'), ['export {};']);
+        assert.deepEqual(await sources.getLines(join(root, 'lib', 'util.js')), ['export {};']);
+        assert.equal(await sources.getLines('missing.js'), null);
+    });
+
+    test('clamps ranges to the file', async (t) => {
+        const { sources } = await setUp(t);
+        assert.deepEqual(await sources.getRange('main.js', 1, 1), [
+            { line: 1, text: 'one' },
+            { line: 2, text: 'two' },
+        ]);
+        assert.deepEqual(
+            (await sources.getRange('main.js', 4, 2))?.map((e) => e.line),
+            [2, 3, 4, 5],
+        );
+        assert.equal(await sources.getRange('missing.js', 1, 1), null);
+    });
+
+    test('caches files until reset', async (t) => {
+        const { root, sources } = await setUp(t);
+        await sources.getLines('lib/util.js');
+        await writeFile(join(root, 'lib', 'util.js'), 'export const changed = true;');
+        assert.deepEqual(await sources.getLines('lib/util.js'), ['export {};']);
+        sources.reset();
+        assert.deepEqual(await sources.getLines('lib/util.js'), ['export const changed = true;']);
+    });
+});
@@ -0,0 +1,70 @@
+import { strict as assert } from 'node:assert';
+import { describe, test } from 'node:test';
+import {
+    BreakpointManager,
+    type MockFrame,
+    type MockValue,
+    runTo,
+    step,
+    stepUntil,
+    stepUntilChanged,
+} from '../index.js';
+import { connectMock, evaluateInContext, stopAtStart } from './helpers.js';
+
+function frame(line: number, variables: Record<string, MockValue> = {}): MockFrame[] {
+    return [{ name: 'main', filename: 'main.js', line, scopes: [{ name: 'Local', variables }] }];
+}
+
+async function topLine(session: Awaited<ReturnType<typeof connectMock>>['session']) {
+    return (await session.getTopStack())?.lineNumber;
+}
+
+describe('stepping', () => {
+    test('takes the given number of steps', async (t) => {
+        const { debuggee, session } = await connectMock(t, { timeline: [1, 2, 3, 4].map((e) => frame(e)) });
+        await stopAtStart(debuggee, session);
+        const result = await step(session, 2);
+        assert.equal(result.reason, 'done');
+        assert.equal(result.steps, 2);
+        assert.equal(await topLine(session), 3);
+    });
+
+    test('steps until an expression is truthy', async (t) => {
+        const timeline = [0, 1, 2, 3].map((i) => frame(10 + i, { i }));
+        const { debuggee, session } = await connectMock(t, { timeline, evaluate: evaluateInContext() });
+        await stopAtStart(debuggee, session);
+        const result = await stepUntil(session, 'i === 2');
+        assert.deepEqual([result.reason, result.steps], ['done', 2]);
+        assert.equal(await topLine(session), 12);
+        const limited = await stepUntil(session, 'i === 0', { maxSteps: 1 });
+        assert.deepEqual([limited.reason, limited.steps], ['limit', 1]);
+    });
+
+    test('compares objects by content when stepping until a change', async (t) => {
+        // Each position has its own object, only the last one differs in content
+        const timeline = [
+            frame(1, { pos: { x: 0, y: [0] } }),
+            frame(2, { pos: { x: 0, y: [0] } }),
+            frame(3, { other: 1 }),
+            frame(4, { pos: { x: 0, y: [1] } }),
+        ];
+        const { debuggee, session } = await connectMock(t, { timeline, evaluate: evaluateInContext() });
+        await stopAtStart(debuggee, session);
+        const result = await stepUntilChanged(session, 'pos');
+        assert.deepEqual([result.reason, result.steps], ['done', 3]);
+        assert.equal(await topLine(session), 4);
+    });
+
+    test('runs to a line with a temporary breakpoint', async (t) => {
+        const { debuggee, session } = await connectMock(t, { timeline: [1, 2, 3, 4].map((e) => frame(e)) });
+        const breakpoints = new BreakpointManager();
+        breakpoints.attach(session);
+        await stopAtStart(debuggee, session);
+        const result = await runTo(session, breakpoints, 'main.js', 3);
+        assert.equal(result.reason, 'done');
+        assert.equal(await topLine(session), 3);
+        assert.deepEqual(breakpoints.list(), []);
+        await breakpoints.sync();
+        assert.deepEqual(debuggee.breakpoints.get('main.js'), []);
+    });
+});
@@ -0,0 +1,92 @@
+import { strict as assert } from 'node:assert';
+import { describe, type TestContext, test } from 'node:test';
+import { type MockFrame, type MockValue, type Watch, WatchManager } from '../index.js';
+import { connectMock, evaluateInContext, stopAtStart } from './helpers.js';
+
+function frame(line: number, variables: Record<string, MockValue>): MockFrame[] {
+    return [
+        { name: 'tick', filename: 'main.js', line, scopes: [{ name: 'Local', variables }] },
+        { name: 'main', filename: 'main.js', line: 20, scopes: [{ name: 'Local', variables: { i: 'outer' } }] },
+    ];
+}
+
+// Each position has its own objects, only the last one differs in content
+const timeline = [
+    frame(1, { i: 1, pos: { x: 0, y: [0] } }),
+    frame(2, { i: 1, pos: { x: 0, y: [0] } }),
+    frame(3, { i: 2, pos: { x: 0, y: [1] } }),
+];
+
+function nextUpdate(watches: WatchManager) {
+    return new Promise<Watch[]>((resolve) => {
+        watches.once('update', resolve);
+    });
+}
+
+async function setUp(t: TestContext, expressions: string[]) {
+    const { debuggee, session } = await connectMock(t, { timeline, evaluate: evaluateInContext() });
+    const watches = new WatchManager();
+    for (const expression of expressions) {
+        watches.add(expression);
+    }
+    watches.attach(session);
+    const updated = nextUpdate(watches);
+    await stopAtStart(debuggee, session);
+    await updated;
+    return { session, watches };
+}
+
+async function stepAndUpdate(session: Awaited<ReturnType<typeof connectMock>>['session'], watches: WatchManager) {
+    const updated = nextUpdate(watches);
+    await session.stepNext();
+    return updated;
+}
+
+describe('WatchManager', () => {
+    test('evaluates watches on each stop and records what changed', async (t) => {
+        const { session, watches } = await setUp(t, ['i', 'missing']);
+        const [i, missing] = watches.list();
+        assert.deepEqual([i.value, i.changed], ['1', false]);
+        assert.match(missing.error ?? '', /missing is not defined/);
+
+        await stepAndUpdate(session, watches);
+        assert.deepEqual([i.value, i.previousValue, i.changed], ['1', '1', false]);
+        assert.equal(missing.changed, false);
+
+        await stepAndUpdate(session, watches);
+        assert.deepEqual([i.value, i.previousValue, i.changed], ['2', '1', true]);
+    });
+
+    test('compares objects by content', async (t) => {
+        const { session, watches } = await setUp(t, ['pos']);
+        const [pos] = watches.list();
+        await stepAndUpdate(session, watches);
+        assert.equal(pos.changed, false);
+        await stepAndUpdate(session, watches);
+        assert.equal(pos.value, pos.previousValue);
+        assert.equal(pos.changed, true);
+    });
+
+    test('keeps previous values when evaluating in another frame of the same stop', async (t) => {
+        const { session, watches } = await setUp(t, ['i']);
+        await stepAndUpdate(session, watches);
+        const [i] = watches.list();
+        const frames = await session.traceStack();
+        await watches.refresh(frames[1]);
+        assert.deepEqual([i.value, i.previousValue, i.changed], ['"outer"', '1', true]);
+        await watches.refresh();
+        assert.deepEqual([i.value, i.previousValue, i.changed], ['1', '1', false]);
+    });
+
+    test('evaluates watches added while paused and reuses existing ones', async (t) => {
+        const { watches } = await setUp(t, []);
+        const updated = nextUpdate(watches);
+        const watch = watches.add(' i ');
+        await updated;
+        assert.equal(watch.value, '1');
+        assert.equal(watches.add('i'), watch);
+        assert.throws(() => watches.add(' '), /Expression is empty/);
+        assert.ok(watches.remove(watch.id));
+        assert.deepEqual(watches.list(), []);
+    });
+});
@@ -0,0 +1,165 @@
+import { strict as assert } from 'node:assert';
+import { Buffer } from 'node:buffer';
+import { once } from 'node:events';
+import { createServer, request } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Duplex } from 'node:stream';
+import { describe, type TestContext, test } from 'node:test';
+import {
+    acceptWebSocket,
+    connectWebSocketDebugConnection,
+    FrameTooLargeError,
+    MinecraftDebugSession,
+    MockDebuggee,
+    WebSocketTransport,
+} from '../index.js';
+import { protocolVersion } from './helpers.js';
+
+/**
+ * A socket that records what is written to it and receives what is pushed.
+ */
+function createSocket() {
+    const written: Buffer[] = [];
+    const socket = new Duplex({
+        read() {},
+        write(chunk: Buffer, _encoding, callback) {
+            written.push(chunk);
+            callback();
+        },
+    });
+    return { socket, written };
+}
+
+function frame(firstByte: number, payload: Buffer, mask?: Buffer) {
+    const header = Buffer.from([firstByte, payload.length | (mask ? 0x80 : 0)]);
+    if (!mask) return Buffer.concat([header, payload]);
+    return Buffer.concat([header, mask, payload.map((e, i) => e ^ mask[i & 3])]);
+}
+
+/**
+ * Starts an HTTP server that passes upgrade requests to `onUpgrade` and returns its port.
+ */
+async function listen(t: TestContext, onUpgrade: (...args: Parameters<typeof acceptWebSocket>) => void) {
+    const server = createServer();
+    server.on('upgrade', onUpgrade);
+    await new Promise<void>((resolve) => {
+        server.listen(0, 'localhost', resolve);
+    });
+    t.after(() => server.close());
+    return (server.address() as AddressInfo).port;
+}
+
+describe('WebSocketTransport', () => {
+    test('encodes unmasked binary frames with all length forms', () => {
+        const { socket, written } = createSocket();
+        const transport = new WebSocketTransport(socket, false);
+        transport.write(Buffer.alloc(5, 1));
+        transport.write(Buffer.alloc(200, 2));
+        transport.write(Buffer.alloc(70000, 3));
+        assert.deepEqual([...written[0].subarray(0, 2)], [0x82, 5]);
+        assert.deepEqual([...written[1].subarray(0, 4)], [0x82, 126, 0, 200]);
+        assert.deepEqual([...written[2].subarray(0, 2)], [0x82, 127]);
+        assert.equal(written[2].readBigUInt64BE(2), 70000n);
+        assert.deepEqual(written[2].subarray(10), Buffer.alloc(70000, 3));
+    });
+
+    test('masks frames sent by clients', () => {
+        const { socket, written } = createSocket();
+        const transport = new WebSocketTransport(socket, true);
+        const payload = Buffer.from('hello world');
+        transport.write(payload);
+        const [sent] = written;
+        assert.equal(sent[1], 0x80 | payload.length);
+        const mask = sent.subarray(2, 6);
+        assert.deepEqual(
+            sent.subarray(6).map((e, i) => e ^ mask[i & 3]),
+            payload,
+        );
+    });
+
+    test('decodes masked and fragmented frames split across chunks', () => {
+        const { socket } = createSocket();
+        const transport = new WebSocketTransport(socket, false);
+        const received: string[] = [];
+        transport.on('data', (chunk) => received.push(chunk.toString()));
+        const mask = Buffer.from([1, 2, 3, 4]);
+        // Binary without FIN, then a final continuation
+        const data = Buffer.concat([frame(0x02, Buffer.from('abc'), mask), frame(0x80, Buffer.from('def'), mask)]);
+        socket.push(data.subarray(0, 3));
+        socket.push(data.subarray(3, 11));
+        socket.push(data.subarray(11));
+        return new Promise<void>((resolve) => {
+            setImmediate(() => {
+                assert.deepEqual(received, ['abc', 'def']);
+                resolve();
+            });
+        });
+    });
+
+    test('answers pings and close frames', async () => {
+        const { socket, written } = createSocket();
+        new WebSocketTransport(socket, false);
+        socket.push(frame(0x89, Buffer.from('ping')));
+        socket.push(frame(0x88, Buffer.alloc(0)));
+        await once(socket, 'finish');
+        assert.deepEqual(written[0], frame(0x8a, Buffer.from('ping')));
+        assert.deepEqual(written[1], frame(0x88, Buffer.alloc(0)));
+    });
+
+    test('closes on frames longer than maxFrameLength', async () => {
+        const { socket, written } = createSocket();
+        const transport = new WebSocketTransport(socket, false, undefined, { maxFrameLength: 16 });
+        const errors: Error[] = [];
+        const received: Buffer[] = [];
+        transport.on('error', (err) => errors.push(err));
+        transport.on('data', (chunk) => received.push(chunk));
+        // Only the header of a 1000 byte frame
+        socket.push(Buffer.from([0x82, 126, 0x03, 0xe8]));
+        socket.push(frame(0x82, Buffer.from('late')));
+        await once(socket, 'finish');
+        assert.ok(errors[0] instanceof FrameTooLargeError);
+        assert.equal(errors[0].length, 1000);
+        assert.deepEqual(written, [frame(0x88, Buffer.alloc(0))]);
+        assert.deepEqual(received, []);
+    });
+});
+
+describe('acceptWebSocket', () => {
+    test('carries a debug session after the handshake', async (t) => {
+        const port = await listen(t, (req, socket, head) => {
+            new MockDebuggee({ protocolVersion, timeline: [] }).attach(acceptWebSocket(req, socket, head));
+        });
+        const connection = await connectWebSocketDebugConnection(`ws://localhost:${port}/`);
+        t.after(() => connection.close());
+        const session = new MinecraftDebugSession(connection, { version: protocolVersion });
+        const [event] = await once(session, 'protocol');
+        assert.equal(event.version, protocolVersion);
+    });
+
+    test('refuses other WebSocket versions', async (t) => {
+        const errors: unknown[] = [];
+        const port = await listen(t, (req, socket, head) => {
+            try {
+                acceptWebSocket(req, socket, head);
+            } catch (err) {
+                errors.push(err);
+            }
+        });
+        const req = request({
+            host: 'localhost',
+            port,
+            headers: {
+                Connection: 'Upgrade',
+                Upgrade: 'websocket',
+                'Sec-WebSocket-Key': Buffer.alloc(16).toString('base64'),
+                'Sec-WebSocket-Version': '8',
+            },
+        });
+        req.end();
+        const [res] = await once(req, 'response');
+        res.resume();
+        assert.equal(res.statusCode, 426);
+        assert.equal(res.headers['sec-websocket-version'], '13');
+        assert.match(String(errors[0]), /Unsupported WebSocket version: 8/);
+    });
+});